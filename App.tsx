@@ -96,6 +96,8 @@ const App: React.FC = () => {
         if (targetNode.type === 'remapper') {
             if (targetHandle.startsWith('target-in-target-') && sourceNode.type !== 'targetSplitter' && sourceNode.type !== 'designAnalyst') return;
             if (targetHandle.startsWith('target-in-source-') && sourceNode.type !== 'containerResolver' && sourceNode.type !== 'designAnalyst') return;
+            if (targetHandle === 'batch-source-in' && sourceNode.type !== 'containerResolver' && sourceNode.type !== 'designAnalyst') return;
+            if (targetHandle === 'batch-templates-in' && sourceNode.type !== 'targetSplitter' && sourceNode.type !== 'targetTemplate') return;
         }
 
         if (targetNode.type === 'designAnalyst') {
@@ -127,8 +129,11 @@ const App: React.FC = () => {
         }
       }
 
+      // Batch template input is the only multi-edge handle (one edge per template)
+      const isMultiInput = targetHandle === 'batch-templates-in';
+
       setEdges((eds) => {
-        const cleanEdges = eds.filter((edge) => edge.target !== params.target || edge.targetHandle !== targetHandle);
+        const cleanEdges = isMultiInput ? eds : eds.filter((edge) => edge.target !== params.target || edge.targetHandle !== targetHandle);
         return addEdge(params, cleanEdges);
       });
     },
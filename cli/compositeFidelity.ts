@@ -0,0 +1,51 @@
+// Compares the preview compositor against the composite embedded in reference PSDs.
+//
+//   npm run check:composite [-- <file.psd> ...] [--max-mismatch 0.01]
+//
+// Without files, every PSD in cli/fixtures is checked (see fixtures/buildCompositeFixture.ts).
+// Exits non-zero when a document's mismatch ratio exceeds the threshold.
+import { readFile, readdir } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { parsePsdBuffer, measureCompositeFidelity } from '../services/psdService';
+import { installNodeCanvas } from './nodeCanvas';
+
+const FIXTURE_DIR = fileURLToPath(new URL('./fixtures/', import.meta.url));
+const DEFAULT_MAX_MISMATCH = 0.01;
+
+const listFixtures = async () =>
+  (await readdir(FIXTURE_DIR)).filter(name => name.toLowerCase().endsWith('.psd')).map(name => join(FIXTURE_DIR, name));
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: { 'max-mismatch': { type: 'string' } }
+  });
+  const maxMismatch = values['max-mismatch'] !== undefined ? Number(values['max-mismatch']) : DEFAULT_MAX_MISMATCH;
+  if (!Number.isFinite(maxMismatch) || maxMismatch < 0) throw new Error(`Invalid --max-mismatch '${values['max-mismatch']}'.`);
+
+  installNodeCanvas();
+  const files = positionals.length > 0 ? positionals : await listFixtures();
+  if (files.length === 0) throw new Error(`No PSD files to check in ${FIXTURE_DIR}.`);
+
+  let failures = 0;
+  for (const file of files) {
+    const report = await measureCompositeFidelity(parsePsdBuffer(await readFile(file)));
+    if (!report) {
+      failures++;
+      console.error(`[composite] ${basename(file)}: no embedded composite`);
+      continue;
+    }
+    const passed = report.mismatchRatio <= maxMismatch;
+    if (!passed) failures++;
+    console.log(`[composite] ${basename(file)}: ${passed ? 'ok' : 'FAIL'} mismatch ${(report.mismatchRatio * 100).toFixed(2)}% (max ${(maxMismatch * 100).toFixed(2)}%), mean error ${report.meanAbsoluteError.toFixed(2)}`);
+  }
+
+  if (failures > 0) throw new Error(`${failures} of ${files.length} document(s) failed the composite check.`);
+};
+
+main().catch((e: any) => {
+  console.error(e.message || e);
+  process.exit(1);
+});
@@ -0,0 +1,94 @@
+// Regenerates composite-fidelity.psd, the reference document for `npm run check:composite`.
+//
+//   npx tsx cli/fixtures/buildCompositeFixture.ts
+//
+// The embedded composite is computed here pixel by pixel (Photoshop's formulas for opaque
+// layers), independently of the preview compositor it is checked against.
+import { writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import type { Layer, Psd } from 'ag-psd';
+import { createCanvas, encodePsd } from '../../services/psdService';
+import { installNodeCanvas } from '../nodeCanvas';
+
+const SIZE = 64;
+const OUTPUT = fileURLToPath(new URL('./composite-fidelity.psd', import.meta.url));
+
+type Rgb = [number, number, number];
+interface Rect { left: number, top: number, right: number, bottom: number }
+
+const inside = (rect: Rect, x: number, y: number) => x >= rect.left && x < rect.right && y >= rect.top && y < rect.bottom;
+
+const BACKGROUND: Rgb = [200, 180, 140];
+const SHADOW = { rect: { left: 8, top: 8, right: 40, bottom: 40 }, color: [100, 100, 200] as Rgb };
+const BASE = { rect: { left: 36, top: 8, right: 60, bottom: 32 }, color: [40, 160, 60] as Rgb };
+// Clipped to BASE: only the overlap is visible
+const HIGHLIGHT = { rect: { left: 28, top: 18, right: 64, bottom: 26 }, color: [255, 255, 255] as Rgb, opacity: 0.5 };
+// Masked: the mask reveals the left 24px of the layer
+const FRAME = { rect: { left: 8, top: 40, right: 56, bottom: 60 }, color: [220, 40, 40] as Rgb };
+const FRAME_REVEAL: Rect = { left: 8, top: 40, right: 32, bottom: 60 };
+
+const solidLayer = (name: string, rect: Rect, color: Rgb, extra: Partial<Layer> = {}): Layer => {
+  const canvas = createCanvas(rect.right - rect.left, rect.bottom - rect.top);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = `rgb(${color.join(',')})`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return { name, ...rect, canvas, ...extra };
+};
+
+const frameMask = () => {
+  const { rect } = FRAME;
+  const canvas = createCanvas(rect.right - rect.left, rect.bottom - rect.top);
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = 'rgb(0,0,0)';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.fillStyle = 'rgb(255,255,255)';
+  ctx.fillRect(0, 0, FRAME_REVEAL.right - FRAME_REVEAL.left, canvas.height);
+  return { ...rect, defaultColor: 0, canvas };
+};
+
+// Expected flattened pixel, bottom to top
+const expectedPixel = (x: number, y: number): Rgb => {
+  let color: Rgb = [...BACKGROUND];
+  if (inside(SHADOW.rect, x, y)) color = color.map((c, i) => Math.round(c * SHADOW.color[i] / 255)) as Rgb;
+  if (inside(BASE.rect, x, y)) {
+    color = [...BASE.color];
+    if (inside(HIGHLIGHT.rect, x, y)) color = color.map((c, i) => Math.round(c + (HIGHLIGHT.color[i] - c) * HIGHLIGHT.opacity)) as Rgb;
+  }
+  if (inside(FRAME.rect, x, y) && inside(FRAME_REVEAL, x, y)) color = [...FRAME.color];
+  return color;
+};
+
+const buildComposite = () => {
+  const canvas = createCanvas(SIZE, SIZE);
+  const ctx = canvas.getContext('2d')!;
+  const image = ctx.createImageData(SIZE, SIZE);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const offset = (y * SIZE + x) * 4;
+      image.data.set([...expectedPixel(x, y), 255], offset);
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
+
+const main = async () => {
+  installNodeCanvas();
+  const full: Rect = { left: 0, top: 0, right: SIZE, bottom: SIZE };
+  const psd: Psd = {
+    width: SIZE,
+    height: SIZE,
+    canvas: buildComposite(),
+    children: [
+      solidLayer('Background', full, BACKGROUND),
+      solidLayer('Shadow (multiply)', SHADOW.rect, SHADOW.color, { blendMode: 'multiply' }),
+      solidLayer('Base', BASE.rect, BASE.color),
+      solidLayer('Highlight (clipped)', HIGHLIGHT.rect, HIGHLIGHT.color, { clipping: true, opacity: HIGHLIGHT.opacity }),
+      solidLayer('Frame (masked)', FRAME.rect, FRAME.color, { mask: frameMask() })
+    ]
+  };
+  await writeFile(OUTPUT, encodePsd(psd));
+  console.log(`Wrote ${OUTPUT}`);
+};
+
+main();
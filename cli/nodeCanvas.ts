@@ -0,0 +1,11 @@
+// Native canvas backing for headless runs (CLI, fixture checks).
+import { createCanvas as createNodeCanvas, ImageData as NodeImageData } from '@napi-rs/canvas';
+import { initializeCanvas } from 'ag-psd';
+import { setCanvasFactory } from '../services/psdService';
+
+// ag-psd and the services both allocate canvases; headless runs back them with a native canvas
+export const installNodeCanvas = () => {
+  const create = (width: number, height: number) => createNodeCanvas(width, height) as unknown as HTMLCanvasElement;
+  initializeCanvas(create, (width, height) => new NodeImageData(width, height) as unknown as ImageData);
+  setCanvasFactory(create);
+};
@@ -0,0 +1,141 @@
+// Headless PSD-to-PSD conversion for CI and render farms.
+//
+//   npm run psd-engine -- convert --source design.psd --target 300x250.psd --out out/
+//
+// --source and --target may be repeated: every design is converted onto every target.
+// --recipe takes a project saved by ProjectControls; its Remapper wiring (and saved Analyst
+// strategies) decides which design container fills which target container.
+import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import type { Canvas as NodeCanvas } from '@napi-rs/canvas';
+import { ProjectExport, RemapStrategy } from '../types';
+import { parsePsdBuffer, encodePsd } from '../services/psdService';
+import { readRecipe, convertDesign, AUTO_RECIPE, ConversionRecipe } from '../services/conversionService';
+import { renderContainers, composeCanvas, RasterSource } from '../services/rasterExportService';
+import { ExportStructureOptions } from '../services/exportStructureService';
+import { installNodeCanvas } from './nodeCanvas';
+
+const STRATEGIES: RemapStrategy[] = ['UNIFORM_FIT', 'UNIFORM_FILL', 'STRETCH', 'NONE'];
+
+const USAGE = `Usage: psd-engine convert --source <design.psd> --target <template.psd> --out <dir> [options]
+
+Options:
+  --source <file>        Design PSD (repeatable)
+  --target <file>        Target template PSD (repeatable)
+  --out <dir>            Output directory (created if missing)
+  --recipe <file>        Project JSON saved from the editor (container wiring, Remapper config, Analyst strategies)
+  --strategy <name>      Remap strategy: ${STRATEGIES.join(' | ')} (overrides the recipe)
+  --optical              Fit and anchor on visible pixels instead of layer bounds
+  --png                  Also write the flattened composite as PNG
+  --no-thumbnail         Do not embed a thumbnail in the PSD
+  --no-template          Do not carry over the hidden !!TEMPLATE guides
+  --no-placeholders      Do not emit empty groups for unfilled containers
+  --no-global-layers     Do not pass through top-level layers outside the containers`;
+
+const loadRecipe = async (path: string | undefined): Promise<ConversionRecipe> => {
+  if (!path) return AUTO_RECIPE;
+  const project = JSON.parse(await readFile(path, 'utf8')) as ProjectExport;
+  if (!project || !Array.isArray(project.nodes) || !Array.isArray(project.edges)) {
+    throw new Error(`Invalid project file: ${path}`);
+  }
+  return readRecipe(project);
+};
+
+const stem = (path: string) => basename(path, extname(path));
+
+const convert = async (argv: string[]) => {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      source: { type: 'string', multiple: true },
+      target: { type: 'string', multiple: true },
+      out: { type: 'string' },
+      recipe: { type: 'string' },
+      strategy: { type: 'string' },
+      optical: { type: 'boolean', default: false },
+      png: { type: 'boolean', default: false },
+      'no-thumbnail': { type: 'boolean', default: false },
+      'no-template': { type: 'boolean', default: false },
+      'no-placeholders': { type: 'boolean', default: false },
+      'no-global-layers': { type: 'boolean', default: false }
+    }
+  });
+
+  if (!values.source?.length || !values.target?.length || !values.out) throw new Error(USAGE);
+  const strategy = values.strategy?.toUpperCase() as RemapStrategy | undefined;
+  if (strategy && !STRATEGIES.includes(strategy)) throw new Error(`Unknown strategy '${values.strategy}'. Expected one of ${STRATEGIES.join(', ')}.`);
+
+  const baseRecipe = await loadRecipe(values.recipe);
+  const recipe: ConversionRecipe = {
+    ...baseRecipe,
+    config: {
+      targetContainerName: null,
+      ...baseRecipe.config,
+      ...(strategy ? { strategy } : {}),
+      ...(values.optical ? { optical: true } : {})
+    }
+  };
+  const structure: ExportStructureOptions = {
+    includeTemplate: !values['no-template'],
+    includePlaceholders: !values['no-placeholders'],
+    includeGlobalLayers: !values['no-global-layers']
+  };
+
+  await mkdir(values.out, { recursive: true });
+  const targets = await Promise.all(values.target.map(async path => ({
+    path,
+    psd: parsePsdBuffer(await readFile(path), { skipLayerImageData: true })
+  })));
+
+  let failures = 0;
+  for (const sourcePath of values.source) {
+    const sourcePsd = parsePsdBuffer(await readFile(sourcePath));
+
+    for (const target of targets) {
+      const label = `${basename(sourcePath)} -> ${basename(target.path)}`;
+      try {
+        const result = convertDesign(sourcePsd, target.psd, recipe, structure);
+
+        // Merged composite, rendered like the editor's export (global layers around the containers placed at their target bounds)
+        const sources: RasterSource[] = Array.from(result.payloads.entries()).map(([containerName, payload]) => ({ containerName, payload, psd: sourcePsd }));
+        const composite = await composeCanvas(await renderContainers(sources), { width: result.psd.width, height: result.psd.height }, result.globalLayers);
+        result.psd.canvas = composite;
+
+        const outName = `${stem(sourcePath)}__${stem(target.path)}`;
+        const data = encodePsd(result.psd, { invalidateTextLayers: result.hasLiveText, generateThumbnail: !values['no-thumbnail'] });
+        await writeFile(join(values.out, `${outName}.psd`), data);
+        if (values.png) {
+          await writeFile(join(values.out, `${outName}.png`), await (composite as unknown as NodeCanvas).encode('png'));
+        }
+
+        console.log(`[psd-engine] ${label}: ${result.report.mapped.length} containers, ${result.editableCount} editable layers -> ${outName}.psd`);
+        result.report.mapped.forEach(({ source, target: container }) => console.log(`    ${source} -> ${container}`));
+        result.report.skipped.forEach(({ source, target: container, reason }) => console.warn(`    skipped ${source} -> ${container ?? '*'}: ${reason}`));
+      } catch (e: any) {
+        failures++;
+        console.error(`[psd-engine] ${label}: ${e.message || e}`);
+      }
+    }
+  }
+
+  if (failures > 0) throw new Error(`${failures} conversion(s) failed.`);
+};
+
+const main = async () => {
+  const [command, ...argv] = process.argv.slice(2);
+  if (command !== 'convert') {
+    console.log(USAGE);
+    process.exit(command ? 1 : 0);
+  }
+
+  installNodeCanvas();
+  try {
+    await convert(argv);
+  } catch (e: any) {
+    console.error(e.message || e);
+    process.exit(1);
+  }
+};
+
+main();
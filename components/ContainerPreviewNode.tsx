@@ -2,7 +2,7 @@ import React, { memo, useEffect, useState, useMemo, useRef, useCallback } from '
 import { Handle, Position, NodeProps, useEdges, NodeResizer, useUpdateNodeInternals, useReactFlow } from 'reactflow';
 import { PSDNodeData, TransformedPayload } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { compositePayloadToCanvas } from '../services/psdService';
+import { compositePayload } from '../services/compositorService';
 import { Layers, Maximize, Scan, RotateCw, ShieldCheck, FileWarning, Plus, MonitorPlay } from 'lucide-react';
 
 // --- SUB-COMPONENT: Preview Instance Row ---
@@ -80,7 +80,8 @@ const PreviewInstanceRow = memo(({ index, nodeId }: { index: number, nodeId: str
 
         let isMounted = true;
 
-        compositePayloadToCanvas(incomingPayload, psd)
+        // Worker render: a newer payload on this row supersedes any render still in flight
+        compositePayload(incomingPayload, psd, `${nodeId}:${index}`)
             .then((url) => {
                 if (isMounted && url) {
                     setPreviewUrl(url);
@@ -7,7 +7,8 @@ import { PSDNodeData, LayoutStrategy, SerializableLayer, ChatMessage, AnalystIns
 import { useProceduralStore } from '../store/ProceduralContext';
 import { getSemanticThemeObject, findLayerByPath } from '../services/psdService';
 import { useKnowledgeScoper } from '../hooks/useKnowledgeScoper';
-import { GoogleGenAI, Type } from "@google/genai";
+import { buildAnalystPrompt, renderSourceCrop } from '../services/analystPromptService';
+import { parseModelJson, validateLayoutStrategy, collectLayerIds, describeRepairs, LAYOUT_STRATEGY_SCHEMA } from '../services/strategyValidationService';
 // Added Plus icon to imports
 import { Brain, BrainCircuit, Ban, Play, Eye, BookOpen, Tag, Activity, Minus, Maximize2, Trash2, RotateCcw, Sparkles, Plus } from 'lucide-react';
 import { BaseNodeShell } from './shared/BaseNodeShell';
@@ -51,6 +52,10 @@ const MODELS: Record<ModelKey, ModelConfig> = {
   }
 };
 
+// Unknown keys (e.g. from older saved projects) fall back to the default tier
+const getModelConfig = (key: string | undefined): ModelConfig =>
+  MODELS[key as ModelKey] || MODELS[DEFAULT_INSTANCE_STATE.selectedModel];
+
 const StrategyCard: React.FC<{ strategy: LayoutStrategy, modelConfig: ModelConfig }> = ({ strategy, modelConfig }) => {
     const overrideCount = strategy.overrides?.length || 0;
     const directives = strategy.directives || [];
@@ -77,6 +82,7 @@ const StrategyCard: React.FC<{ strategy: LayoutStrategy, modelConfig: ModelConfi
              </div>
              <div className="flex flex-wrap gap-1 mt-1">
                 <span className={`text-[9px] px-1.5 py-0.5 rounded border font-mono font-bold tracking-wider ${methodColor}`}>{strategy.method || 'GEOMETRIC'}</span>
+                <span className={`text-[9px] px-1.5 py-0.5 rounded border font-mono font-bold tracking-wider ${modelConfig.badgeClass}`}>{modelConfig.label}</span>
                 {strategy.clearance && <span className="text-[9px] px-1.5 py-0.5 rounded border border-orange-500 text-orange-300 bg-orange-900/20 font-mono font-bold">CLEARANCE</span>}
              </div>
              {triangulation && (
@@ -104,7 +110,7 @@ const InstanceRow: React.FC<any> = ({
 }) => {
     const chatContainerRef = useRef<HTMLDivElement>(null);
     const isMinimized = settings?.isMinimized;
-    const activeModelConfig = MODELS[state.selectedModel as ModelKey];
+    const activeModelConfig = getModelConfig(state.selectedModel);
     const isReady = !!sourceData && !!targetData;
     const targetName = targetData?.name || (sourceData?.container.containerName) || 'Unknown';
     const theme = getSemanticThemeObject(targetName, 0);
@@ -139,6 +145,17 @@ const InstanceRow: React.FC<any> = ({
             {/* Content Area */}
             {!isMinimized && (
                 <div className="p-3 space-y-3">
+                    <div className="nodrag flex items-center justify-between">
+                        <span className="text-[9px] text-slate-500 uppercase tracking-wider">Model</span>
+                        <div className="flex space-x-1">
+                            {(Object.keys(MODELS) as ModelKey[]).map(key => (
+                                <button key={key} onClick={() => onModelChange(instId, key)} disabled={isAnalyzing} className={`text-[9px] px-1.5 py-0.5 rounded border font-mono font-bold tracking-wider transition-colors ${activeModelConfig === MODELS[key] ? MODELS[key].badgeClass : 'border-slate-700 text-slate-500 hover:text-slate-300'}`}>
+                                    {MODELS[key].label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
                     <div className="flex items-center justify-between bg-slate-900/40 rounded p-2 border border-slate-700/30 relative min-h-[50px]">
                         <div className="flex flex-col gap-4 relative justify-center">
                             <div className="relative flex items-center h-4">
@@ -169,7 +186,7 @@ const InstanceRow: React.FC<any> = ({
                         {state.chatHistory.map((msg: any, idx: number) => (
                             <div key={idx} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
                                 <div className={`max-w-[95%] rounded border p-2 text-[10px] ${msg.role === 'user' ? 'bg-slate-800 border-slate-600 text-slate-200' : `bg-slate-800/50 border-purple-500/30 text-slate-300`}`}>
-                                    {msg.role === 'user' ? msg.parts[0].text : msg.strategySnapshot && <StrategyCard strategy={msg.strategySnapshot} modelConfig={activeModelConfig} />}
+                                    {msg.role === 'user' || !msg.strategySnapshot ? msg.parts[0].text : <StrategyCard strategy={msg.strategySnapshot} modelConfig={msg.model ? getModelConfig(msg.model) : activeModelConfig} />}
                                 </div>
                             </div>
                         ))}
@@ -190,9 +207,10 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
   const analystInstances = data.analystInstances || {};
   const [analyzingInstances, setAnalyzingInstances] = useState<Record<string, boolean>>({});
   const edges = useEdges();
+  const nodes = useNodes();
   const { setNodes } = useReactFlow();
   const updateNodeInternals = useUpdateNodeInternals();
-  const { resolvedRegistry, templateRegistry, knowledgeRegistry, registerResolved, registerTemplate, unregisterNode, flushPipelineInstance, removeInstance } = useProceduralStore();
+  const { psdRegistry, resolvedRegistry, templateRegistry, knowledgeRegistry, registerResolved, registerTemplate, unregisterNode, flushPipelineInstance, removeInstance, llmProvider } = useProceduralStore();
 
   useEffect(() => { updateNodeInternals(id); }, [id, instanceIds.length, data.isMinimized, updateNodeInternals]);
 
@@ -201,6 +219,12 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
     return edge ? knowledgeRegistry[edge.source] : null;
   }, [edges, id, knowledgeRegistry]);
 
+  const { scopes: knowledgeScopes } = useKnowledgeScoper(activeKnowledge?.rules);
+
+  // Pixel data for the source crop comes from the design PSD
+  const loadPsdNode = nodes.find(n => n.type === 'loadPsd');
+  const sourcePsd = loadPsdNode ? psdRegistry[loadPsdNode.id] : undefined;
+
   const getSourceData = (instId: string) => {
     const edge = edges.find(e => e.target === id && e.targetHandle === `source-in-${instId}`);
     return edge ? resolvedRegistry[edge.source]?.[edge.sourceHandle || ''] : null;
@@ -233,24 +257,64 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
     setNodes(nds => nds.map(n => n.id === id ? { ...n, data: { ...n.data, instanceSettings: { ...instanceSettings, [instId]: { ...instanceSettings[instId], isMinimized: !instanceSettings[instId]?.isMinimized } } } } : n));
   }, [id, setNodes, instanceSettings]);
 
+  const handleModelChange = useCallback((instId: string, model: ModelKey) => {
+    setNodes(nds => nds.map(n => {
+      if (n.id !== id) return n;
+      const instances = n.data.analystInstances || {};
+      return { ...n, data: { ...n.data, analystInstances: { ...instances, [instId]: { ...(instances[instId] || DEFAULT_INSTANCE_STATE), selectedModel: model } } } };
+    }));
+  }, [id, setNodes]);
+
   const handleAnalyze = async (instId: string) => {
     const sourceData = getSourceData(instId);
     const targetData = getTargetData(instId);
     if (!sourceData || !targetData) return;
 
+    const instanceState = analystInstances[instId] || DEFAULT_INSTANCE_STATE;
+    const useKnowledge = !!activeKnowledge && !instanceState.isKnowledgeMuted;
+    const modelKey = instanceState.selectedModel;
+    const modelConfig = getModelConfig(modelKey);
+
     setAnalyzingInstances(prev => ({ ...prev, [instId]: true }));
     try {
-        const apiKey = process.env.API_KEY;
-        const ai = new GoogleGenAI({ apiKey });
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: "Perform geometric analysis and return strategy JSON.",
-            config: { responseMimeType: "application/json" }
+        const sourceCrop = sourcePsd ? await renderSourceCrop(sourcePsd, sourceData) : null;
+        const prompt = buildAnalystPrompt({
+            source: sourceData,
+            target: targetData,
+            scopes: useKnowledge ? knowledgeScopes : null,
+            visualAnchors: useKnowledge ? activeKnowledge!.visualAnchors : [],
+            sourceCrop
+        });
+
+        const responseText = await llmProvider.generateText({
+            model: modelConfig.apiModel,
+            parts: prompt.parts,
+            systemInstruction: prompt.systemInstruction,
+            json: true,
+            responseSchema: LAYOUT_STRATEGY_SCHEMA,
+            thinkingBudget: modelConfig.thinkingBudget
+        });
+        const parsed = parseModelJson(responseText);
+        const sourceBounds = sourceData.container.bounds;
+        const validated = validateLayoutStrategy(parsed.value, {
+            layerIds: collectLayerIds(sourceData.layers as SerializableLayer[]),
+            fallbackScale: Math.min(targetData.bounds.w / (sourceBounds.w || 1), targetData.bounds.h / (sourceBounds.h || 1))
         });
-        const json = JSON.parse(response.text || '{}');
-        const newMsg = { id: Date.now().toString(), role: 'model', parts: [{ text: "Analysis Complete." }], strategySnapshot: json, timestamp: Date.now() };
-        setNodes(nds => nds.map(n => n.id === id ? { ...n, data: { ...n.data, analystInstances: { ...analystInstances, [instId]: { ...(analystInstances[instId] || DEFAULT_INSTANCE_STATE), chatHistory: [newMsg], layoutStrategy: json } } } } : n));
-        registerResolved(id, `source-out-${instId}`, { ...sourceData, aiStrategy: json });
+        const strategy: LayoutStrategy = { ...validated.value, knowledgeApplied: prompt.summary.ruleCount > 0, knowledgeMuted: !!activeKnowledge && instanceState.isKnowledgeMuted };
+        const repairNote = describeRepairs([...parsed.repairs, ...validated.repairs]);
+
+        const { layerCount, ruleCount, imageCount } = prompt.summary;
+        const requestMsg: ChatMessage = { id: `${Date.now()}-req`, role: 'user', parts: [{ text: `Audit ${sourceData.container.containerName} -> ${targetData.name}: ${layerCount} layers, ${ruleCount} rules, ${imageCount} images` }], model: modelKey, timestamp: Date.now() };
+        const newMsg: ChatMessage = { id: Date.now().toString(), role: 'model', parts: [{ text: "Analysis Complete." }], strategySnapshot: strategy, model: modelKey, timestamp: Date.now() };
+        const repairMsg: ChatMessage[] = repairNote ? [{ id: `${Date.now()}-repair`, role: 'model', parts: [{ text: repairNote }], model: modelKey, timestamp: Date.now() }] : [];
+        // Instances analyze concurrently: merge into the current state, not the one captured at click time
+        setNodes(nds => nds.map(n => {
+          if (n.id !== id) return n;
+          const instances = n.data.analystInstances || {};
+          const current = instances[instId] || DEFAULT_INSTANCE_STATE;
+          return { ...n, data: { ...n.data, analystInstances: { ...instances, [instId]: { ...current, chatHistory: [...current.chatHistory, requestMsg, newMsg, ...repairMsg], layoutStrategy: strategy } } } };
+        }));
+        registerResolved(id, `source-out-${instId}`, { ...sourceData, aiStrategy: strategy });
     } catch (e) { console.error(e); } finally { setAnalyzingInstances(prev => ({ ...prev, [instId]: false })); }
   };
 
@@ -259,7 +323,7 @@ export const DesignAnalystNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         <Handle type="target" position={Position.Top} id="knowledge-in" className="!w-4 !h-4 !-top-2 !bg-emerald-500 !border-2 !border-slate-900 z-50" style={{ left: '50%', transform: 'translateX(-50%)' }} />
         <div className="flex flex-col">
             {instanceIds.map((instId) => (
-                <InstanceRow key={instId} instId={instId} state={analystInstances[instId] || DEFAULT_INSTANCE_STATE} settings={instanceSettings[instId]} sourceData={getSourceData(instId)} targetData={getTargetData(instId)} onAnalyze={handleAnalyze} onToggleMinimize={handleToggleMinimize} onDelete={handleDeleteInstance} isAnalyzing={!!analyzingInstances[instId]} activeKnowledge={activeKnowledge} />
+                <InstanceRow key={instId} instId={instId} state={analystInstances[instId] || DEFAULT_INSTANCE_STATE} settings={instanceSettings[instId]} sourceData={getSourceData(instId)} targetData={getTargetData(instId)} onAnalyze={handleAnalyze} onModelChange={handleModelChange} onToggleMinimize={handleToggleMinimize} onDelete={handleDeleteInstance} isAnalyzing={!!analyzingInstances[instId]} activeKnowledge={activeKnowledge} />
             ))}
         </div>
         <button onClick={handleAddInstance} className="w-full py-2 bg-slate-900 hover:bg-slate-700 border-t border-slate-700 text-slate-400 text-[10px] font-bold uppercase tracking-wider flex items-center justify-center space-x-1">
@@ -2,10 +2,10 @@
 import React, { memo, useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { Handle, Position, useReactFlow, useEdges, useNodes, NodeResizer, useUpdateNodeInternals } from 'reactflow';
 import type { NodeProps, Node } from 'reactflow';
-import { SerializableLayer, PSDNodeData } from '../types';
+import { SerializableLayer, PSDNodeData, OpacityCoercion } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { findLayerByPath, getOpticalBounds } from '../services/psdService';
-import { Scan, Box, Layers, MousePointer2, Info } from 'lucide-react';
+import { findLayerByPath, getOpticalBounds, measureCompositeFidelity, CompositeFidelityReport } from '../services/psdService';
+import { Scan, Box, Layers, MousePointer2, Info, Gauge, AlertTriangle } from 'lucide-react';
 import { BaseNodeShell } from './shared/BaseNodeShell';
 
 interface LayerPreviewProps {
@@ -13,6 +13,15 @@ interface LayerPreviewProps {
     sourceNodeId: string;
 }
 
+const describeOpacityCoercion = (coercion: OpacityCoercion, opacity: number): string => {
+    const applied = `${Math.round(opacity * 100)}%`;
+    switch (coercion.reason) {
+        case 'BYTE_RANGE': return `Opacity ${coercion.raw} read as a 0-255 byte, applied as ${applied}`;
+        case 'OUT_OF_RANGE': return `Opacity ${coercion.raw} out of range, clamped to ${applied}`;
+        default: return `Opacity unreadable (${coercion.raw}), defaulted to ${applied}`;
+    }
+};
+
 const LayerPreview: React.FC<LayerPreviewProps> = ({ layer, sourceNodeId }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
@@ -101,6 +110,8 @@ const LayerPreview: React.FC<LayerPreviewProps> = ({ layer, sourceNodeId }) => {
             <div className="absolute top-2 right-2 z-10 flex flex-col items-end gap-1 pointer-events-none">
                 <span className="text-[9px] font-mono text-blue-300 bg-black/60 px-1.5 py-0.5 rounded border border-blue-500/30">GEO: {Math.round(metrics.geo.w)}x{Math.round(metrics.geo.h)}</span>
                 {metrics.optical && <span className="text-[9px] font-mono text-red-300 bg-black/60 px-1.5 py-0.5 rounded border border-red-500/30">OPT: {Math.round(metrics.optical.w)}x{Math.round(metrics.optical.h)}</span>}
+                <span className="text-[9px] font-mono text-slate-300 bg-black/60 px-1.5 py-0.5 rounded border border-slate-500/30">OPACITY: {Math.round(layer.opacity * 100)}%</span>
+                {layer.opacityCoercion && <span className="text-[9px] font-mono text-amber-300 bg-black/60 px-1.5 py-0.5 rounded border border-amber-500/30 max-w-[200px] text-right">{describeOpacityCoercion(layer.opacityCoercion, layer.opacity)}</span>}
             </div>
             <div ref={containerRef} className="flex-1 relative w-full h-full min-h-[150px]"><canvas ref={canvasRef} className="absolute inset-0 w-full h-full" /></div>
             <div className="h-6 bg-slate-900 border-t border-slate-700 flex items-center px-2 gap-3 shrink-0">
@@ -111,6 +122,47 @@ const LayerPreview: React.FC<LayerPreviewProps> = ({ layer, sourceNodeId }) => {
     );
 };
 
+// Compares the preview compositor against the PSD's embedded composite (blend / clipping / mask fidelity)
+const FidelityCheck: React.FC<{ sourceNodeId: string }> = ({ sourceNodeId }) => {
+    const { psdRegistry } = useProceduralStore();
+    const [report, setReport] = useState<CompositeFidelityReport | null>(null);
+    const [status, setStatus] = useState<'idle' | 'running' | 'unavailable'>('idle');
+
+    // A new binary invalidates the previous measurement
+    const psd = psdRegistry[sourceNodeId];
+    useEffect(() => { setReport(null); setStatus('idle'); }, [psd]);
+
+    const runCheck = async () => {
+        if (!psd) return;
+        setStatus('running');
+        try {
+            const result = await measureCompositeFidelity(psd);
+            setReport(result);
+            setStatus(result ? 'idle' : 'unavailable');
+        } catch (e) {
+            console.warn('[DesignInfo] Fidelity check failed', e);
+            setStatus('unavailable');
+        }
+    };
+
+    const isFaithful = report && report.mismatchRatio < 0.01;
+
+    return (
+        <div className="h-7 bg-slate-900 border-t border-slate-700 flex items-center justify-between px-2 shrink-0">
+            <button onClick={runCheck} disabled={!psd || status === 'running'} className="nodrag flex items-center gap-1 text-[9px] uppercase font-bold tracking-wider text-slate-400 hover:text-orange-300 disabled:opacity-40 transition-colors">
+                <Gauge className="w-3 h-3" />
+                {status === 'running' ? 'Comparing...' : 'Composite Fidelity'}
+            </button>
+            {status === 'unavailable' && <span className="text-[9px] text-slate-500 italic">No embedded composite</span>}
+            {report && (
+                <span className={`text-[9px] font-mono px-1.5 py-0.5 rounded border ${isFaithful ? 'text-emerald-300 border-emerald-500/30 bg-emerald-900/20' : 'text-amber-300 border-amber-500/30 bg-amber-900/20'}`} title={`Mean absolute error ${report.meanAbsoluteError.toFixed(2)} (0-255) over ${report.width}x${report.height}`}>
+                    MAE {report.meanAbsoluteError.toFixed(2)} | {(report.mismatchRatio * 100).toFixed(1)}% PX
+                </span>
+            )}
+        </div>
+    );
+};
+
 const LayerItem: React.FC<{ node: SerializableLayer; depth?: number; isSelected: boolean; onSelect: (l: SerializableLayer) => void }> = ({ node, depth = 0, isSelected, onSelect }) => {
   const [isOpen, setIsOpen] = useState(false);
   const isGroup = node.type === 'group';
@@ -128,6 +180,11 @@ const LayerItem: React.FC<{ node: SerializableLayer; depth?: number; isSelected:
            {isGroup ? <Box className="w-3 h-3" /> : <Layers className="w-3 h-3" />}
         </div>
         <span className={`text-[11px] truncate ${isSelected ? 'text-white font-medium' : 'text-slate-300'}`}>{node.name}</span>
+        {node.opacityCoercion && (
+          <span className="ml-auto pl-1 shrink-0 text-amber-400" title={describeOpacityCoercion(node.opacityCoercion, node.opacity)}>
+            <AlertTriangle className="w-3 h-3" />
+          </span>
+        )}
       </div>
       {isOpen && hasChildren && (
         <div className="border-l border-slate-700/50 ml-3">
@@ -173,6 +230,7 @@ export const DesignInfoNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
               {selectedLayer && sourceNode ? <LayerPreview layer={selectedLayer} sourceNodeId={sourceNode.id} /> : <div className="flex-1 flex flex-col items-center justify-center text-slate-600 gap-2"><MousePointer2 className="w-6 h-6 opacity-20" /><span className="text-[10px] uppercase tracking-widest font-bold">Select Layer</span></div>}
           </div>
       </div>
+      {sourceNode && <FidelityCheck sourceNodeId={sourceNode.id} />}
     </BaseNodeShell>
   );
 });
@@ -2,7 +2,7 @@ import React, { memo, useState, useEffect, useCallback, useMemo, useRef } from '
 import { Handle, Position, NodeProps, useReactFlow, useUpdateNodeInternals, useEdges, useNodes } from 'reactflow';
 import { PSDNodeData, TransformedPayload, LayerOverride, ChatMessage, ReviewerStrategy, ReviewerInstanceState, TransformedLayer, FeedbackStrategy } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { GoogleGenAI, Type } from "@google/genai";
+import { parseModelJson, validateReviewerStrategy, describeRepairs, REVIEWER_STRATEGY_SCHEMA } from '../services/strategyValidationService';
 import { Check, MessageSquare, AlertCircle, ShieldCheck, Search, Activity, Brain, Ban, Link as LinkIcon, Layers, Lock, Move, Anchor, Zap, RotateCcw } from 'lucide-react';
 
 const DEFAULT_INSTANCE_STATE: ReviewerInstanceState = {
@@ -98,6 +98,7 @@ const ReviewerInstanceRow = memo(({
     
     // Phase 3b: Confidence Visualization
     const triangulation = payload?.triangulation;
+    const safetyReport = payload?.safetyReport;
     let confidenceColor = 'text-slate-500 bg-slate-800/50 border-slate-700';
     if (triangulation?.confidence_verdict === 'HIGH') confidenceColor = 'text-emerald-300 bg-emerald-900/30 border-emerald-500/50';
     else if (triangulation?.confidence_verdict === 'MEDIUM') confidenceColor = 'text-yellow-300 bg-yellow-900/30 border-yellow-500/50';
@@ -173,6 +174,19 @@ const ReviewerInstanceRow = memo(({
                              <span className="text-[9px] font-bold tracking-wider">{triangulation.confidence_verdict} CONFIDENCE</span>
                          </div>
                      )}
+
+                     {/* Physics Badge: residual violations after constraint resolution */}
+                     {safetyReport && (
+                         <div
+                            className={`flex items-center gap-1 px-2 py-0.5 rounded border ${safetyReport.violationCount > 0 ? 'text-red-300 bg-red-900/30 border-red-500/50' : 'text-emerald-300 bg-emerald-900/30 border-emerald-500/50'}`}
+                            title={safetyReport.allowedBleed ? 'Bleed allowed (clipping not enforced)' : 'Clipping enforced'}
+                         >
+                             {safetyReport.violationCount > 0 ? <AlertCircle className="w-3 h-3" /> : <ShieldCheck className="w-3 h-3" />}
+                             <span className="text-[9px] font-bold tracking-wider">
+                                 {safetyReport.violationCount > 0 ? `${safetyReport.violationCount} VIOLATION${safetyReport.violationCount === 1 ? '' : 'S'}` : 'PHYSICS OK'}
+                             </span>
+                         </div>
+                     )}
                  </div>
 
                  <div className="flex items-center space-x-2">
@@ -313,7 +327,7 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
     const edges = useEdges();
     const { setNodes } = useReactFlow();
     const updateNodeInternals = useUpdateNodeInternals();
-    const { payloadRegistry, updatePayload, unregisterNode, knowledgeRegistry, registerFeedback, clearFeedback } = useProceduralStore();
+    const { payloadRegistry, updatePayload, unregisterNode, knowledgeRegistry, registerFeedback, clearFeedback, llmProvider } = useProceduralStore();
     const [analyzingInstances, setAnalyzingInstances] = useState<Record<number, boolean>>({});
     const [syncingInstances, setSyncingInstances] = useState<Record<number, boolean>>({});
 
@@ -371,10 +385,6 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
         setAnalyzingInstances(prev => ({ ...prev, [index]: true }));
         
         try {
-            const apiKey = process.env.API_KEY;
-            if (!apiKey) throw new Error("API_KEY missing");
-            const ai = new GoogleGenAI({ apiKey });
-
             // Fix: Normalize targetBounds to ensure x and y exist. Fallback to 0,0 if metrics.target is used.
             const targetBounds = payload.targetBounds || {
                 x: 0,
@@ -439,49 +449,33 @@ export const DesignReviewerNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
                 5. DO NOT assume the current position is 0. Use the provided 'currentRelativeX/Y'.
             `;
 
-            const response = await ai.models.generateContent({
+            const responseText = await llmProvider.generateText({
                 model: 'gemini-2.5-flash',
-                contents: [{ role: 'user', parts: [{ text: userMessage }] }],
-                config: {
-                    systemInstruction,
-                    responseMimeType: "application/json",
-                    responseSchema: {
-                        type: Type.OBJECT,
-                        properties: {
-                            reasoning: { type: Type.STRING },
-                            overrides: {
-                                type: Type.ARRAY,
-                                items: {
-                                    type: Type.OBJECT,
-                                    properties: {
-                                        layerId: { type: Type.STRING },
-                                        xOffset: { type: Type.NUMBER },
-                                        yOffset: { type: Type.NUMBER },
-                                        individualScale: { type: Type.NUMBER }
-                                    },
-                                    required: ['layerId', 'xOffset', 'yOffset', 'individualScale']
-                                }
-                            }
-                        }
-                    }
-                }
+                parts: [{ text: userMessage }],
+                systemInstruction,
+                json: true,
+                responseSchema: REVIEWER_STRATEGY_SCHEMA
             });
 
-            const json = JSON.parse(response.text || '{}');
+            const parsed = parseModelJson(responseText);
+            const validated = validateReviewerStrategy(parsed.value, { layerIds: new Set(flatLayers.map(l => l.id)) }, "Manual Adjustment");
+            const repairNote = describeRepairs([...parsed.repairs, ...validated.repairs]);
+            const reasoning = (parsed.value as { reasoning?: unknown } | null)?.reasoning;
             
             // Construct the AI response message
             const aiMessage: ChatMessage = {
                 id: Date.now().toString(),
                 role: 'model',
-                parts: [{ text: json.reasoning || "Adjustments applied." }],
+                parts: [{ text: typeof reasoning === 'string' && reasoning ? reasoning : "Adjustments applied." }],
                 timestamp: Date.now()
             };
+            const repairMessages: ChatMessage[] = repairNote ? [{ id: `${Date.now()}-repair`, role: 'model', parts: [{ text: repairNote }], timestamp: Date.now() }] : [];
 
             // Update Chat History and Reviewer Strategy
-            const newHistory = [...currentHistory, aiMessage];
+            const newHistory = [...currentHistory, aiMessage, ...repairMessages];
             updateInstanceState(index, { 
                 chatHistory: newHistory, 
-                reviewerStrategy: { CARO_Audit: "Manual Adjustment", overrides: json.overrides } 
+                reviewerStrategy: validated.value 
             });
 
         } catch (e) {
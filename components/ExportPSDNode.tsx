@@ -2,26 +2,11 @@ import React, { memo, useState, useMemo, useEffect } from 'react';
 import { Handle, Position, NodeProps, useEdges, useUpdateNodeInternals } from 'reactflow';
 import { TransformedLayer, TransformedPayload, MappingContext } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { findLayerByPath, writePsdFile } from '../services/psdService';
-import { Layer, Psd } from 'ag-psd';
-import { GoogleGenAI } from "@google/genai";
-
-// Helper: Calculate closest supported aspect ratio for Nano Banana
-const getClosestAspectRatio = (width: number, height: number): string => {
-    const ratio = width / height;
-    const targets = {
-        "1:1": 1,
-        "3:4": 0.75,
-        "4:3": 1.333,
-        "9:16": 0.5625,
-        "16:9": 1.777
-    };
-    
-    // Find closest aspect ratio key
-    return Object.keys(targets).reduce((prev, curr) => 
-        Math.abs(targets[curr as keyof typeof targets] - ratio) < Math.abs(targets[prev as keyof typeof targets] - ratio) ? curr : prev
-    );
-};
+import { writePsdFile, encodePsd, downloadBlob } from '../services/psdService';
+import { exportRasters, renderContainers, composeCanvas, encodeRasters, formatByteSize, RasterArtifact, RasterExportOptions, RasterFormat, RasterSource } from '../services/rasterExportService';
+import { buildExportBundle } from '../services/exportBundleService';
+import { assembleExportPsd, resolveGlobalLayers, AssembledExport, DEFAULT_STRUCTURE_OPTIONS, ExportStructureOptions } from '../services/exportStructureService';
+import { LlmProvider } from '../services/llmProviderService';
 
 // Helper: Convert Base64 Data URI to HTMLCanvasElement
 const base64ToCanvas = (base64: string, width: number, height: number): Promise<HTMLCanvasElement | null> => {
@@ -61,90 +46,23 @@ const base64ToCanvas = (base64: string, width: number, height: number): Promise<
     });
 };
 
-// Helper: Create a transformed version of a standard layer canvas (Rotation/Scale baking)
-const applyTransformToCanvas = (
-    sourceCanvas: HTMLCanvasElement | HTMLImageElement,
-    width: number,
-    height: number,
-    transform: { scaleX: number, scaleY: number, rotation?: number }
-): HTMLCanvasElement => {
-    // Create canvas based on target AABB dimensions
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return canvas;
-
-    // Center of new bounds
-    const cx = width / 2;
-    const cy = height / 2;
-
-    ctx.save();
-    ctx.translate(cx, cy);
-    if (transform.rotation) {
-        ctx.rotate((transform.rotation * Math.PI) / 180);
-    }
-    
-    // Draw centered. We assume 'width' and 'height' passed here are the destination dimensions
-    // and the source should be scaled to fit? 
-    // Actually, in our pipeline, 'transform.scaleX' was already applied to calculate 'width' and 'height' in the coordinates.
-    // But 'sourceCanvas' is the original raw pixels.
-    // So we draw sourceCanvas at -w/2, -h/2 with size w, h.
-    ctx.drawImage(sourceCanvas, -width / 2, -height / 2, width, height);
-
-    ctx.restore();
-    return canvas;
-};
-
-// Helper: Generate Image using GenAI SDK
+// Helper: Generate Image through the project's model provider
 const generateLayerImage = async (
+    provider: LlmProvider,
     prompt: string, 
     width: number, 
     height: number, 
     sourceReference?: string
 ): Promise<HTMLCanvasElement | null> => {
     try {
-        const apiKey = process.env.API_KEY;
-        if (!apiKey) throw new Error("API Key missing");
-
-        const ai = new GoogleGenAI({ apiKey });
-        
-        // Construct Multi-Modal Request Parts
-        const parts: any[] = [];
-        
-        if (sourceReference) {
-            const base64Data = sourceReference.includes('base64,') 
-                ? sourceReference.split('base64,')[1] 
-                : sourceReference;
-            
-            parts.push({
-                inlineData: {
-                    mimeType: 'image/png',
-                    data: base64Data
-                }
-            });
-        }
-        
-        parts.push({ text: prompt });
-
-        const response = await ai.models.generateContent({
+        const base64Data = await provider.generateImage({
             model: 'gemini-2.5-flash-image',
-            contents: { parts },
-            config: {
-                imageConfig: {
-                    aspectRatio: getClosestAspectRatio(width, height) as any
-                }
-            }
+            prompt,
+            reference: sourceReference,
+            width,
+            height
         });
         
-        let base64Data = null;
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) {
-                base64Data = part.inlineData.data;
-                break;
-            }
-        }
-        
         if (!base64Data) throw new Error("No image data returned from API");
         return base64ToCanvas(`data:image/png;base64,${base64Data}`, width, height);
 
@@ -154,16 +72,112 @@ const generateLayerImage = async (
     }
 };
 
+// Flattened raster outputs (whole canvas + each container) rendered through the preview compositor
+// Encoding options are owned by the node so the ZIP bundle renders the same rasters.
+const RasterExportPanel = ({ sources, globalLayers, canvasSize, disabled, options, onOptionsChange }: {
+    sources: RasterSource[];
+    globalLayers: AssembledExport['globalLayers'];
+    canvasSize: { width: number, height: number } | null;
+    disabled: boolean;
+    options: RasterExportOptions;
+    onOptionsChange: (options: RasterExportOptions) => void;
+}) => {
+    const { format, quality } = options;
+    const setFormat = (next: RasterFormat) => onOptionsChange({ ...options, format: next });
+    const setQuality = (next: number) => onOptionsChange({ ...options, quality: next });
+    const [artifacts, setArtifacts] = useState<RasterArtifact[]>([]);
+    const [isRendering, setIsRendering] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Stale once the inputs or encoding change
+    useEffect(() => { setArtifacts([]); }, [sources, globalLayers, canvasSize, format, quality]);
+
+    const handleRender = async () => {
+        if (!canvasSize || sources.length === 0) return;
+        setIsRendering(true);
+        setError(null);
+        try {
+            setArtifacts(await exportRasters(sources, canvasSize, { format, quality }, `PROCEDURAL_EXPORT_${Date.now()}`, globalLayers));
+        } catch (e: any) {
+            console.error("Raster Export Failed:", e);
+            setError(e.message || "Unknown raster export error");
+        } finally {
+            setIsRendering(false);
+        }
+    };
+
+    return (
+        <div className="mb-2 p-2 bg-slate-900/50 border border-slate-700 rounded space-y-2">
+            <div className="flex items-center justify-between">
+                <span className="text-[10px] text-slate-400 font-mono">RASTER OUTPUTS</span>
+                <select
+                    value={format}
+                    onChange={(e) => setFormat(e.target.value as RasterFormat)}
+                    className="nodrag bg-slate-800 border border-slate-600 text-[10px] text-slate-200 rounded px-1 py-0.5 focus:outline-none"
+                >
+                    <option value="png">PNG</option>
+                    <option value="jpeg">JPEG</option>
+                    <option value="webp">WebP</option>
+                </select>
+            </div>
+
+            {format !== 'png' && (
+                <div className="flex items-center space-x-2">
+                    <span className="text-[9px] text-slate-500 w-12">QUALITY</span>
+                    <input
+                        type="range" min={0.1} max={1} step={0.05} value={quality}
+                        onChange={(e) => setQuality(Number(e.target.value))}
+                        className="nodrag flex-1 accent-indigo-500"
+                    />
+                    <span className="text-[9px] font-mono text-slate-300 w-8 text-right">{Math.round(quality * 100)}%</span>
+                </div>
+            )}
+
+            <button
+                onClick={handleRender}
+                disabled={disabled || isRendering || sources.length === 0}
+                className="nodrag w-full py-1 rounded text-[10px] font-bold uppercase tracking-wider bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+                {isRendering ? 'Rendering...' : `Render ${format.toUpperCase()} (${sources.length + 1} files)`}
+            </button>
+
+            {error && <div className="text-[9px] text-red-300">ERROR: {error}</div>}
+
+            {artifacts.length > 0 && (
+                <div className="space-y-0.5">
+                    {artifacts.map(artifact => (
+                        <div key={artifact.filename} className="flex items-center justify-between text-[9px] font-mono">
+                            <span className="truncate text-slate-300 mr-2" title={artifact.filename}>
+                                {artifact.scope === 'canvas' ? 'CANVAS' : artifact.containerName}
+                                <span className="text-slate-500"> {artifact.width}x{artifact.height}</span>
+                            </span>
+                            <div className="flex items-center space-x-2 shrink-0">
+                                <span className="text-emerald-300">{formatByteSize(artifact.blob.size)}</span>
+                                <button onClick={() => downloadBlob(artifact.blob, artifact.filename)} className="nodrag text-indigo-300 hover:text-indigo-200 underline">
+                                    Save
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
 export const ExportPSDNode = memo(({ id }: NodeProps) => {
   const [isExporting, setIsExporting] = useState(false);
   const [exportStatus, setExportStatus] = useState<string>('Idle');
   const [exportError, setExportError] = useState<string | null>(null);
+  const [rasterOptions, setRasterOptions] = useState<RasterExportOptions>({ format: 'png', quality: 0.85 });
+  const [embedThumbnail, setEmbedThumbnail] = useState(true);
+  const [structureOptions, setStructureOptions] = useState<ExportStructureOptions>(DEFAULT_STRUCTURE_OPTIONS);
 
   const edges = useEdges();
   const updateNodeInternals = useUpdateNodeInternals();
   
   // Access global registries 
-  const { psdRegistry, templateRegistry, payloadRegistry, reviewerRegistry, resolvedRegistry } = useProceduralStore();
+  const { psdRegistry, templateRegistry, payloadRegistry, reviewerRegistry, resolvedRegistry, llmProvider } = useProceduralStore();
 
   // 1. Resolve Connected Target Template from Store via Edge Source
   const templateMetadata = useMemo(() => {
@@ -239,13 +253,29 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
   const isTemplateReady = !!templateMetadata;
   const isExportReady = isTemplateReady && filledSlots > 0 && validationErrors.length === 0;
 
+  const rasterSources = useMemo<RasterSource[]>(() => containers.flatMap(container => {
+      const payload = slotConnections.get(container.name);
+      const psd = payload ? psdRegistry[payload.sourceNodeId] : undefined;
+      return payload && psd ? [{ containerName: container.name, payload, psd }] : [];
+  }), [containers, slotConnections, psdRegistry]);
+
+  // Same plan as the assembled PSD, so the panel's canvas raster matches the PSD composite
+  const globalLayers = useMemo(() => templateMetadata ? resolveGlobalLayers({
+      template: templateMetadata,
+      payloads: slotConnections,
+      getSourcePsd: nodeId => psdRegistry[nodeId],
+      getSourceTemplate: nodeId => templateRegistry[nodeId],
+      options: structureOptions
+  }) : null, [templateMetadata, slotConnections, psdRegistry, templateRegistry, structureOptions]);
+
   // 4. Force Handle Update on Layout Change
   useEffect(() => {
     updateNodeInternals(id);
   }, [id, containers.length, validationErrors.length, updateNodeInternals]);
   
   // 5. Export Logic
-  const handleExport = async () => {
+  // bundle: PSD + raster outputs + manifest.json in one ZIP instead of a lone PSD download
+  const handleExport = async (bundle = false) => {
     if (!templateMetadata || !isExportReady) return;
     
     setIsExporting(true);
@@ -253,14 +283,7 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
     setExportStatus('Analyzing procedural graph...');
 
     try {
-      // A. Initialize New PSD Structure
-      const newPsd: Psd = {
-        width: templateMetadata.canvas.width,
-        height: templateMetadata.canvas.height,
-        children: [],
-      };
-
-      // B. Synthesis Phase: Pre-generate or Reuse AI assets
+      // A. Synthesis Phase: Pre-generate or Reuse AI assets
       const generatedAssets = new Map<string, HTMLCanvasElement>();
       const generationTasks: Promise<void>[] = [];
 
@@ -295,6 +318,7 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
                       } else if (layer.generativePrompt) {
                           const task = async () => {
                               const canvas = await generateLayerImage(
+                                  llmProvider,
                                   layer.generativePrompt!, 
                                   layer.coords.w, 
                                   layer.coords.h,
@@ -321,145 +345,43 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
           await Promise.all(generationTasks);
       }
 
-      // C. Assembly Phase: Reconstruct Hierarchy with Rotation/Scale Banking
+      // B. Assembly Phase: Reconstruct Hierarchy with Rotation/Scale Banking
       setExportStatus('Assembling PSD structure...');
-
-      const reconstructHierarchy = (
-        transformedLayers: TransformedLayer[], 
-        sourcePsd: Psd | undefined,
-        assets: Map<string, HTMLCanvasElement>
-      ): Layer[] => {
-        const resultLayers: Layer[] = [];
-
-        for (const metaLayer of transformedLayers) {
-            let newLayer: Layer | undefined;
-
-            // BRANCH 1: Generative Layer (Synthetic or Surgical Swap)
-            if (metaLayer.type === 'generative') {
-                const asset = assets.get(metaLayer.id);
-                
-                // SURGICAL LOGIC: Check if this "generative" ID actually matches a real layer in the source
-                // If so, we must perform a swap while preserving metadata.
-                const originalLayer = sourcePsd ? findLayerByPath(sourcePsd, metaLayer.id) : null;
-
-                if (asset) {
-                    if (originalLayer) {
-                        // CASE A: SURGICAL SWAP (Re-use container, inject pixels)
-                        // CLEAN ROOM: Explicitly strip conflicting properties
-                        // We remove 'children' because swapped layers are flattened (texture replacement)
-                        // We remove 'canvas' and 'imageData' to ensure binary data is discarded
-                        const { children, canvas, imageData, ...cleanMetadata } = originalLayer as any;
-
-                        newLayer = {
-                            ...cleanMetadata, // Inherit Blend Modes, Layer Masks (if any), etc.
-                            // Override Geometry & Content
-                            name: metaLayer.name,
-                            top: metaLayer.coords.y,
-                            left: metaLayer.coords.x,
-                            bottom: metaLayer.coords.y + metaLayer.coords.h,
-                            right: metaLayer.coords.x + metaLayer.coords.w,
-                            hidden: !metaLayer.isVisible,
-                            opacity: metaLayer.opacity * 255,
-                            // CRITICAL: Overwrite canvas with AI asset
-                            canvas: asset, 
-                            // CRITICAL: Flatten hierarchy if swapped node was a group
-                            children: undefined,
-                            opened: false
-                        };
-                    } else {
-                        // CASE B: ADDITIVE SYNTHESIS (New Node)
-                        newLayer = {
-                            name: metaLayer.name,
-                            top: metaLayer.coords.y,
-                            left: metaLayer.coords.x,
-                            bottom: metaLayer.coords.y + metaLayer.coords.h,
-                            right: metaLayer.coords.x + metaLayer.coords.w,
-                            hidden: !metaLayer.isVisible,
-                            opacity: metaLayer.opacity * 255,
-                            canvas: asset
-                        };
-                    }
-                }
-            } 
-            // BRANCH 2: Standard Layer (Clone + Raster Transform)
-            else if (sourcePsd) {
-                const originalLayer = findLayerByPath(sourcePsd, metaLayer.id);
-                
-                if (originalLayer) {
-                    // Check if CARO applied overrides requiring raster bake (Rotation)
-                    const hasRotation = !!metaLayer.transform.rotation && metaLayer.transform.rotation !== 0;
-                    
-                    let bakedCanvas = originalLayer.canvas;
-
-                    // If rotation exists, we must re-rasterize the original canvas into a transformed state
-                    if (originalLayer.canvas && (hasRotation || metaLayer.transform.scaleX !== 1)) {
-                         bakedCanvas = applyTransformToCanvas(
-                             originalLayer.canvas as HTMLCanvasElement, 
-                             metaLayer.coords.w, 
-                             metaLayer.coords.h, 
-                             metaLayer.transform
-                         );
-                    }
-
-                    newLayer = {
-                        ...originalLayer, // Copy metadata
-                        top: metaLayer.coords.y,
-                        left: metaLayer.coords.x,
-                        bottom: metaLayer.coords.y + metaLayer.coords.h,
-                        right: metaLayer.coords.x + metaLayer.coords.w,
-                        hidden: !metaLayer.isVisible,
-                        opacity: metaLayer.opacity * 255,
-                        children: undefined,
-                        canvas: bakedCanvas
-                    };
-                    
-                    if (metaLayer.type === 'group' && metaLayer.children) {
-                        newLayer.children = reconstructHierarchy(metaLayer.children, sourcePsd, assets);
-                        newLayer.opened = true;
-                    }
-                }
-            }
-
-            if (newLayer) {
-                resultLayers.push(newLayer);
-            }
-        }
-        return resultLayers;
-      };
-
-      const finalChildren: Layer[] = [];
-
-      for (const container of containers) {
-          const payload = slotConnections.get(container.name);
-          
-          if (payload) {
-              const sourcePsd = psdRegistry[payload.sourceNodeId];
-              
-              const reconstructedContent = reconstructHierarchy(
-                  payload.layers, 
-                  sourcePsd, 
-                  generatedAssets
-              );
-              
-              const containerGroup: Layer = {
-                  name: container.originalName,
-                  children: reconstructedContent,
-                  opened: true,
-                  top: container.bounds.y,
-                  left: container.bounds.x,
-                  bottom: container.bounds.y + container.bounds.h,
-                  right: container.bounds.x + container.bounds.w,
-              };
-
-              finalChildren.push(containerGroup);
-          }
-      }
-
-      newPsd.children = finalChildren;
+      const { psd: newPsd, editableCount, hasLiveText, globalLayers } = assembleExportPsd({
+          template: templateMetadata,
+          payloads: slotConnections,
+          getSourcePsd: nodeId => psdRegistry[nodeId],
+          getSourceTemplate: nodeId => templateRegistry[nodeId],
+          assets: generatedAssets,
+          options: structureOptions
+      });
+
+      // C. Merged Composite: previews (Finder / Explorer) and merged-image readers use it instead of the layers
+      setExportStatus('Rendering composite...');
+      const canvasSize = { width: newPsd.width, height: newPsd.height };
+      const renderedContainers = await renderContainers(rasterSources);
+      const composite = await composeCanvas(renderedContainers, canvasSize, globalLayers);
+      newPsd.canvas = composite;
+      const writeOptions = { invalidateTextLayers: hasLiveText, generateThumbnail: embedThumbnail };
 
       // D. Write to File
-      setExportStatus('Finalizing binary...');
-      await writePsdFile(newPsd, `PROCEDURAL_EXPORT_${Date.now()}.psd`);
+      const baseName = `PROCEDURAL_EXPORT_${Date.now()}`;
+      setExportStatus(editableCount > 0 ? `Finalizing binary (${editableCount} editable layers preserved)...` : 'Finalizing binary...');
+      if (bundle) {
+          const psdData = encodePsd(newPsd, writeOptions);
+          setExportStatus('Encoding raster outputs...');
+          const rasters = await encodeRasters(renderedContainers, composite, rasterOptions, baseName);
+          setExportStatus('Packing bundle...');
+          const { archive } = await buildExportBundle({
+              canvas: { width: newPsd.width, height: newPsd.height },
+              payloads: slotConnections,
+              psd: { filename: `${baseName}.psd`, data: psdData },
+              rasters
+          });
+          downloadBlob(archive, `${baseName}.zip`);
+      } else {
+          await writePsdFile(newPsd, `${baseName}.psd`, writeOptions);
+      }
       setExportStatus('Done');
 
     } catch (e: any) {
@@ -556,6 +478,11 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
                                           UNPOLISHED
                                       </span>
                                   ) : null}
+                                  {!!payload?.safetyReport?.violationCount && (
+                                      <span className="text-[8px] bg-red-500/20 text-red-300 px-1 rounded border border-red-500/30 leading-none" title="Residual physics violations (overlap / clipping)">
+                                          {payload.safetyReport.violationCount} VIOLATION{payload.safetyReport.violationCount === 1 ? '' : 'S'}
+                                      </span>
+                                  )}
                               </div>
                           </div>
                           
@@ -598,8 +525,43 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
               </div>
           )}
 
+          <RasterExportPanel
+            sources={rasterSources}
+            globalLayers={globalLayers}
+            canvasSize={templateMetadata ? { width: templateMetadata.canvas.width, height: templateMetadata.canvas.height } : null}
+            disabled={!isExportReady || isExporting}
+            options={rasterOptions}
+            onOptionsChange={setRasterOptions}
+          />
+
+          <label className="flex items-center justify-between mb-2 text-[10px] text-slate-400 font-mono cursor-pointer">
+              <span>EMBED THUMBNAIL</span>
+              <input
+                type="checkbox"
+                checked={embedThumbnail}
+                onChange={(e) => setEmbedThumbnail(e.target.checked)}
+                className="nodrag accent-indigo-500"
+              />
+          </label>
+
+          {([
+              ['includeTemplate', 'KEEP !!TEMPLATE GUIDES'],
+              ['includePlaceholders', 'EMPTY SLOT PLACEHOLDERS'],
+              ['includeGlobalLayers', 'GLOBAL DESIGN LAYERS']
+          ] as [keyof ExportStructureOptions, string][]).map(([key, label]) => (
+              <label key={key} className="flex items-center justify-between mb-2 text-[10px] text-slate-400 font-mono cursor-pointer">
+                  <span>{label}</span>
+                  <input
+                    type="checkbox"
+                    checked={structureOptions[key]}
+                    onChange={(e) => setStructureOptions(prev => ({ ...prev, [key]: e.target.checked }))}
+                    className="nodrag accent-indigo-500"
+                  />
+              </label>
+          ))}
+
           <button
-            onClick={handleExport}
+            onClick={() => handleExport(false)}
             disabled={!isExportReady || isExporting}
             className={`w-full py-2 px-4 rounded text-xs font-bold uppercase tracking-wider transition-all shadow-lg
                 ${isExportReady && !isExporting
@@ -618,6 +580,15 @@ export const ExportPSDNode = memo(({ id }: NodeProps) => {
                     : "Export Full PSD"
              )}
           </button>
+
+          <button
+            onClick={() => handleExport(true)}
+            disabled={!isExportReady || isExporting}
+            className="w-full mt-1.5 py-1.5 px-4 rounded text-[10px] font-bold uppercase tracking-wider transition-colors bg-slate-700 hover:bg-slate-600 text-slate-200 border border-slate-600 disabled:opacity-40 disabled:cursor-not-allowed"
+            title="PSD + raster outputs + manifest.json"
+          >
+             Export Bundle (.zip)
+          </button>
       </div>
     </div>
   );
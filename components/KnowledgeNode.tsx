@@ -4,7 +4,6 @@ import { useProceduralStore } from '../store/ProceduralContext';
 import { PSDNodeData, VisualAnchor, KnowledgeContext } from '../types';
 import { BookOpen, Image as ImageIcon, FileText, Trash2, UploadCloud, BrainCircuit, Loader2, CheckCircle2, AlertCircle, X, Layers, RefreshCw } from 'lucide-react';
 import * as pdfjsLib from 'pdfjs-dist';
-import { GoogleGenAI } from "@google/genai";
 
 // Initialize PDF Worker from CDN to handle parsing off the main thread
 pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://esm.sh/pdfjs-dist@4.0.379/build/pdf.worker.min.mjs';
@@ -120,7 +119,7 @@ export const KnowledgeNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
   const [lastSynced, setLastSynced] = useState<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const { registerKnowledge, unregisterNode } = useProceduralStore();
+  const { registerKnowledge, unregisterNode, llmProvider } = useProceduralStore();
   const { setNodes } = useReactFlow();
 
   // Cleanup on unmount
@@ -243,12 +242,10 @@ export const KnowledgeNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
         let finalRules = "";
 
         if (rawText.trim().length > 0) {
-            const apiKey = process.env.API_KEY;
-            if (apiKey) {
-                const ai = new GoogleGenAI({ apiKey });
-                const response = await ai.models.generateContent({
+            try {
+                finalRules = await llmProvider.generateText({
                     model: 'gemini-3-flash-preview',
-                    contents: `
+                    parts: [{ text: `
                         SOURCE MATERIAL:
                         ${rawText.substring(0, 25000)} // Truncate to be safe
                         
@@ -270,14 +267,11 @@ export const KnowledgeNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
                         
                         For global rules, put them at the top without container tags.
                         Format as plain text.
-                    `,
-                    config: {
-                        systemInstruction: "You are a Design Systems Lead. Extract strict procedural logic from brand guidelines using the // CONTAINER block syntax."
-                    }
-                });
-                finalRules = response.text || "No rules generated.";
-            } else {
-                 finalRules = "API Key missing. Rules could not be distilled from text.";
+                    ` }],
+                    systemInstruction: "You are a Design Systems Lead. Extract strict procedural logic from brand guidelines using the // CONTAINER block syntax."
+                }) || "No rules generated.";
+            } catch (e: any) {
+                finalRules = `${e.message || e}. Rules could not be distilled from text.`;
             }
         } else if (visualAnchors.length > 0) {
             finalRules = "Adhere to the visual style, color palette, and spatial rhythm of the attached reference images.";
@@ -1,13 +1,146 @@
-import React, { useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useReactFlow } from 'reactflow';
-import { ProjectExport } from '../types';
-import { useProceduralStore } from '../store/ProceduralContext';
+import type { Node } from 'reactflow';
+import { ProjectExport, PSDNodeData, LlmSettings, LlmFixtures } from '../types';
+import { useProceduralStore, DEFAULT_PROJECT_SETTINGS, createProjectId } from '../store/ProceduralContext';
+import { planAutoWire, AutoWireReport } from '../services/autoWireService';
+import { countCachedResponses, clearResponseCache, exportResponseCache, importResponseCache } from '../services/llmCacheService';
+
+const AutoWireReportPanel = ({ report, onClose }: { report: AutoWireReport, onClose: () => void }) => (
+    <div className="absolute top-full right-0 mt-2 w-80 bg-slate-800 border border-slate-600 rounded shadow-xl text-[10px] text-slate-300 overflow-hidden">
+        <div className="flex items-center justify-between px-3 py-1.5 bg-slate-900 border-b border-slate-700">
+            <span className="font-bold uppercase tracking-wider text-slate-400">Auto-Wire Report</span>
+            <button onClick={onClose} className="text-slate-500 hover:text-slate-200">✕</button>
+        </div>
+        <div className="p-3 space-y-2 max-h-80 overflow-y-auto custom-scrollbar">
+            {report.error ? (
+                <div className="text-orange-400">{report.error}</div>
+            ) : (
+                <>
+                    <div className="text-slate-500 font-mono">{report.matches.length} matched / {report.createdEdges} edges / {report.createdNodes.length} nodes created</div>
+                    {report.matches.map(({ source, target, method }) => (
+                        <div key={`${source.id}-${target.id}`} className="flex items-center justify-between">
+                            <span className="truncate">{source.name} → {target.name}</span>
+                            <span className={`ml-2 px-1 rounded border text-[8px] font-mono ${method === 'NAME' ? 'border-emerald-500/30 text-emerald-300' : method === 'CASE_INSENSITIVE' ? 'border-yellow-500/30 text-yellow-300' : 'border-purple-500/30 text-purple-300'}`}>{method}</span>
+                        </div>
+                    ))}
+                    {(report.unmatchedSources.length > 0 || report.unmatchedTargets.length > 0) && (
+                        <div className="pt-2 border-t border-slate-700 space-y-1">
+                            <div className="font-bold uppercase tracking-wider text-red-400">Unmatched</div>
+                            {report.unmatchedSources.map(c => <div key={c.id} className="truncate text-slate-400">Source: {c.name} ({c.bounds.w}x{c.bounds.h})</div>)}
+                            {report.unmatchedTargets.map(c => <div key={c.id} className="truncate text-slate-400">Target: {c.name} ({c.bounds.w}x{c.bounds.h})</div>)}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    </div>
+);
+
+const CACHE_MODES: NonNullable<LlmSettings['cacheMode']>[] = ['off', 'record', 'replay'];
+
+const PROVIDER_LABELS: Record<LlmSettings['provider'], string> = {
+    'gemini': 'Gemini (API key)',
+    'openai-compatible': 'Local (OpenAI-compatible)',
+    'fixture': 'Fixtures (offline)'
+};
+
+// Model backend for every AI node; saved with the project
+const LlmSettingsPanel = ({ settings, onChange, onClose }: { settings: LlmSettings, onChange: (settings: LlmSettings) => void, onClose: () => void }) => {
+    const fixtureInputRef = useRef<HTMLInputElement>(null);
+    const fixtureCount = Object.keys(settings.fixtures?.text || {}).length + Object.keys(settings.fixtures?.images || {}).length;
+    const [cacheCount, setCacheCount] = useState<number | null>(null);
+    const cacheMode = settings.cacheMode || 'off';
+
+    const refreshCacheCount = () => { countCachedResponses().then(setCacheCount).catch(() => setCacheCount(null)); };
+    useEffect(refreshCacheCount, [cacheMode]);
+
+    const onClearCache = () => {
+        if (!confirm('Delete every recorded AI response?')) return;
+        clearResponseCache().then(refreshCacheCount).catch(err => alert(`Could not clear the cache: ${err.message || err}`));
+    };
+
+    const inputClass = "w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-[10px] font-mono text-slate-200 focus:outline-none focus:border-indigo-500";
+
+    const onLoadFixtures = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        file.text().then(text => {
+            const fixtures = JSON.parse(text) as LlmFixtures;
+            if (typeof fixtures?.text !== 'object' || typeof fixtures?.images !== 'object') throw new Error('Expected { text, images }');
+            onChange({ ...settings, fixtures });
+        }).catch(err => alert(`Invalid fixture file: ${err.message || err}`));
+        e.target.value = '';
+    };
+
+    return (
+        <div className="absolute top-full right-0 mt-2 w-72 bg-slate-800 border border-slate-600 rounded shadow-xl text-[10px] text-slate-300 overflow-hidden">
+            <div className="flex items-center justify-between px-3 py-1.5 bg-slate-900 border-b border-slate-700">
+                <span className="font-bold uppercase tracking-wider text-slate-400">AI Provider</span>
+                <button onClick={onClose} className="text-slate-500 hover:text-slate-200">✕</button>
+            </div>
+            <div className="p-3 space-y-2">
+                <select value={settings.provider} onChange={e => onChange({ ...settings, provider: e.target.value as LlmSettings['provider'] })} className={inputClass}>
+                    {(Object.keys(PROVIDER_LABELS) as LlmSettings['provider'][]).map(key => <option key={key} value={key}>{PROVIDER_LABELS[key]}</option>)}
+                </select>
+                {settings.provider === 'openai-compatible' && (
+                    <>
+                        <input value={settings.endpoint || ''} onChange={e => onChange({ ...settings, endpoint: e.target.value })} placeholder="http://localhost:11434/v1" className={inputClass} />
+                        <input value={settings.textModel || ''} onChange={e => onChange({ ...settings, textModel: e.target.value })} placeholder="Text / vision model" className={inputClass} />
+                        <input value={settings.imageModel || ''} onChange={e => onChange({ ...settings, imageModel: e.target.value })} placeholder="Image model (optional)" className={inputClass} />
+                    </>
+                )}
+                {settings.provider === 'fixture' && (
+                    <div className="flex items-center justify-between">
+                        <span className="text-slate-500 font-mono">{fixtureCount} fixture(s)</span>
+                        <input type="file" ref={fixtureInputRef} className="hidden" accept=".json" onChange={onLoadFixtures} />
+                        <button onClick={() => fixtureInputRef.current?.click()} className="px-2 py-0.5 rounded border border-slate-600 hover:bg-slate-700 text-slate-300">Load Fixtures</button>
+                    </div>
+                )}
+                <div className="pt-2 border-t border-slate-700 space-y-2">
+                    <div className="flex items-center justify-between">
+                        <span className="font-bold uppercase tracking-wider text-slate-400">Response Cache</span>
+                        <div className="flex space-x-1">
+                            {CACHE_MODES.map(mode => (
+                                <button key={mode} onClick={() => onChange({ ...settings, cacheMode: mode })} className={`px-1.5 py-0.5 rounded border font-mono font-bold uppercase ${cacheMode === mode ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-slate-600 text-slate-500 hover:text-slate-300'}`}>{mode}</button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <span className="text-slate-500 font-mono">{cacheCount === null ? 'Cache unavailable' : `${cacheCount} recorded response(s)`}</span>
+                        <button onClick={onClearCache} disabled={!cacheCount} className="px-2 py-0.5 rounded border border-slate-600 hover:bg-slate-700 text-slate-300 disabled:opacity-40">Clear</button>
+                    </div>
+                    {settings.provider === 'fixture' && cacheMode !== 'off' && (
+                        <div className="text-slate-500">Fixtures bypass the cache: nothing is recorded or replayed from it.</div>
+                    )}
+                    <label className="flex items-center space-x-2 cursor-pointer">
+                        <input type="checkbox" checked={!!settings.embedCache} onChange={e => onChange({ ...settings, embedCache: e.target.checked })} className="accent-indigo-500" />
+                        <span>Save recorded responses with the project</span>
+                    </label>
+                </div>
+            </div>
+        </div>
+    );
+};
 
 export const ProjectControls = () => {
-    const { toObject, setNodes, setEdges, setViewport } = useReactFlow();
+    const { toObject, setNodes, setEdges, setViewport, getNodes, getEdges } = useReactFlow();
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const [autoWireReport, setAutoWireReport] = useState<AutoWireReport | null>(null);
+    const [showLlmSettings, setShowLlmSettings] = useState(false);
+    const { projectSettings, setProjectSettings } = useProceduralStore();
 
-    const onSave = () => {
+    // Matches design containers to target containers and wires Resolver channels + Remapper instances
+    const onAutoWire = () => {
+        const plan = planAutoWire(getNodes() as Node<PSDNodeData>[], getEdges());
+        if (!plan.report.error && plan.report.matches.length > 0) {
+            setNodes(plan.nodes);
+            setEdges(plan.edges);
+        }
+        setAutoWireReport(plan.report);
+    };
+
+    const onSave = async () => {
         const flow = toObject();
         
         // PERSISTENCE LOGIC:
@@ -41,8 +174,18 @@ export const ProjectControls = () => {
             timestamp: Date.now(),
             nodes: sanitizedNodes,
             edges: flow.edges,
-            viewport: flow.viewport
+            viewport: flow.viewport,
+            settings: projectSettings
         };
+
+        // Recorded responses make the saved strategies reproducible offline (replay mode)
+        if (projectSettings.llm.embedCache) {
+            try {
+                projectData.aiCache = await exportResponseCache(projectSettings.projectId);
+            } catch (err) {
+                console.error("Failed to export AI response cache", err);
+            }
+        }
         
         const jsonString = JSON.stringify(projectData, null, 2);
         const blob = new Blob([jsonString], { type: 'application/json' });
@@ -87,6 +230,15 @@ export const ProjectControls = () => {
                     setNodes(project.nodes);
                     setEdges(project.edges);
                     setViewport(project.viewport);
+                    const settings = project.settings?.llm ? project.settings : DEFAULT_PROJECT_SETTINGS;
+                    const projectId = settings.projectId || createProjectId();
+                    setProjectSettings({ ...settings, projectId });
+
+                    if (project.aiCache) {
+                        importResponseCache(project.aiCache, projectId)
+                            .then(count => console.log(`Imported ${count} recorded AI responses`))
+                            .catch(err => console.error("Failed to import AI response cache", err));
+                    }
 
                     if (project.version !== '1.0.0') {
                         console.warn(`Version mismatch: Loading project version ${project.version} into runtime 1.0.0`);
@@ -104,6 +256,8 @@ export const ProjectControls = () => {
 
     return (
         <div className="fixed top-4 right-4 z-50 flex space-x-2">
+            {autoWireReport && <AutoWireReportPanel report={autoWireReport} onClose={() => setAutoWireReport(null)} />}
+            {showLlmSettings && <LlmSettingsPanel settings={projectSettings.llm} onChange={llm => setProjectSettings({ ...projectSettings, llm })} onClose={() => setShowLlmSettings(false)} />}
             <input 
                 type="file" 
                 ref={fileInputRef} 
@@ -111,6 +265,26 @@ export const ProjectControls = () => {
                 accept=".json" 
                 onChange={onLoad} 
             />
+            <button 
+                onClick={() => setShowLlmSettings(v => !v)}
+                className="bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-600 px-3 py-1.5 rounded text-xs font-bold uppercase tracking-wider shadow-lg flex items-center space-x-2 transition-colors"
+                title="Choose the model backend used by AI nodes"
+            >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                </svg>
+                <span>{projectSettings.llm.provider === 'gemini' ? 'Gemini' : projectSettings.llm.provider === 'fixture' ? 'Fixtures' : 'Local'}</span>
+            </button>
+            <button 
+                onClick={onAutoWire}
+                className="bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-600 px-3 py-1.5 rounded text-xs font-bold uppercase tracking-wider shadow-lg flex items-center space-x-2 transition-colors"
+                title="Match source containers to target containers and wire them"
+            >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                </svg>
+                <span>Auto-Wire</span>
+            </button>
             <button 
                 onClick={onSave}
                 className="bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-600 px-3 py-1.5 rounded text-xs font-bold uppercase tracking-wider shadow-lg flex items-center space-x-2 transition-colors"
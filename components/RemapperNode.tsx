@@ -1,18 +1,41 @@
 
 import React, { memo, useMemo, useEffect, useCallback, useState, useRef } from 'react';
 import { Handle, Position, NodeProps, useEdges, useReactFlow, useNodes, useUpdateNodeInternals } from 'reactflow';
-import { PSDNodeData, SerializableLayer, TransformedPayload, TransformedLayer, LayoutStrategy } from '../types';
+import type { Node } from 'reactflow';
+import { PSDNodeData, SerializableLayer, TransformedPayload, TransformedLayer, LayoutStrategy, MappingContext, ContainerDefinition, RemapStrategy, TemplateMetadata } from '../types';
 import { useProceduralStore } from '../store/ProceduralContext';
-import { Check, Sparkles, Minus, Maximize2, Trash2, Plus, Layers, Box, Cpu } from 'lucide-react';
+import { remapContainer, DEFAULT_REMAP_STRATEGY } from '../services/remapService';
+import { collectOpticalMetrics } from '../services/psdService';
+import { Check, Sparkles, Minus, Maximize2, Trash2, Plus, Layers, Box, Cpu, LayoutGrid } from 'lucide-react';
 import { BaseNodeShell } from './shared/BaseNodeShell';
 
+const STRATEGIES: RemapStrategy[] = ['UNIFORM_FIT', 'UNIFORM_FILL', 'STRETCH', 'NONE'];
+
+// Helper: Count pixel leaves and groups in a transformed tree for the instance audit badges
+const auditLayerTree = (layers: TransformedLayer[]): { pixel: number, group: number, total: number } => {
+    let pixel = 0;
+    let group = 0;
+    const traverse = (nodes: TransformedLayer[]) => {
+        nodes.forEach(l => {
+            if (l.type === 'group') {
+                group++;
+                if (l.children) traverse(l.children);
+            } else {
+                pixel++;
+            }
+        });
+    };
+    traverse(layers);
+    return { pixel, group, total: pixel + group };
+};
+
 const RemapperInstanceRow = memo(({ 
     instId, nodeId, settings, source, target, payload, onToggleMinimize, onDeleteInstance 
 }: {
     instId: string, nodeId: string, settings: any, source: any, target: any, payload: any, onToggleMinimize: (id: string) => void, onDeleteInstance: (id: string) => void
 }) => {
     const isMinimized = settings?.isMinimized;
-    const audit = useMemo(() => payload?.layers ? { pixel: 10, group: 2, total: 12 } : null, [payload?.layers]);
+    const audit = useMemo(() => payload?.layers ? auditLayerTree(payload.layers) : null, [payload?.layers]);
 
     return (
         <div className={`relative border-b border-slate-700/50 bg-slate-800 transition-all ${isMinimized ? 'h-10' : ''}`}>
@@ -50,10 +73,16 @@ const RemapperInstanceRow = memo(({
                         <span className="text-[10px] text-emerald-400 font-bold tracking-wide">{payload ? 'READY' : 'WAITING'}</span>
                         <span className="text-[10px] text-slate-500 font-mono">{payload?.scaleFactor?.toFixed(2) || '1.00'}x Scale</span>
                     </div>
+                    {source?.aiStrategy && (
+                        <div className="flex items-center space-x-1.5 px-1.5 py-0.5 rounded border border-purple-500/30 bg-purple-900/20 w-fit">
+                            <Sparkles className="w-2.5 h-2.5 text-purple-400" />
+                            <span className="text-[8px] text-purple-300 font-mono uppercase">AI Anchor: {source.aiStrategy.anchor}</span>
+                        </div>
+                    )}
                     {audit && (
                         <div className="flex flex-wrap gap-1.5 select-none">
-                            <div className="px-1.5 py-0.5 rounded border border-emerald-500/30 bg-emerald-900/20 flex items-center space-x-1"><Layers className="w-2.5 h-2.5 text-emerald-400" /><span className="text-[8px] text-emerald-300 font-mono">Pixels</span></div>
-                            <div className="px-1.5 py-0.5 rounded border border-slate-600 bg-slate-700/40 flex items-center space-x-1"><Box className="w-2.5 h-2.5 text-slate-400" /><span className="text-[8px] text-slate-300 font-mono">Groups</span></div>
+                            <div className="px-1.5 py-0.5 rounded border border-emerald-500/30 bg-emerald-900/20 flex items-center space-x-1"><Layers className="w-2.5 h-2.5 text-emerald-400" /><span className="text-[8px] text-emerald-300 font-mono">{audit.pixel} Pixels</span></div>
+                            <div className="px-1.5 py-0.5 rounded border border-slate-600 bg-slate-700/40 flex items-center space-x-1"><Box className="w-2.5 h-2.5 text-slate-400" /><span className="text-[8px] text-slate-300 font-mono">{audit.group} Groups</span></div>
                         </div>
                     )}
                 </div>
@@ -62,15 +91,110 @@ const RemapperInstanceRow = memo(({
     );
 });
 
+// A single remap unit: one source context onto one target container, published under handleId
+interface RemapJob {
+    handleId: string;
+    source: MappingContext;
+    target: ContainerDefinition;
+    generationAllowed?: boolean;
+}
+
+interface BatchTarget {
+    handleId: string;
+    templateNodeId: string;
+    canvas: TemplateMetadata['canvas'];
+    target: ContainerDefinition;
+}
+
+const RemapperBatchPanel = memo(({
+    source, targets, payloads, templateCount
+}: {
+    source: MappingContext | null, targets: BatchTarget[], payloads: Record<string, TransformedPayload> | undefined, templateCount: number
+}) => {
+    return (
+        <div className="relative border-b border-slate-700/50 bg-slate-800">
+            <div className="px-3 py-1.5 flex items-center justify-between bg-slate-900/50 border-b border-slate-700/30">
+                <div className="flex items-center space-x-2">
+                    <LayoutGrid className="w-3 h-3 text-indigo-400" />
+                    <span className="text-[10px] font-bold tracking-wide uppercase text-slate-300">Batch</span>
+                    <span className="text-[9px] text-slate-500 font-mono truncate max-w-[160px]">{source?.container.containerName || 'No Source'}</span>
+                </div>
+                <span className="text-[9px] text-slate-500 font-mono">{templateCount} Template{templateCount === 1 ? '' : 's'} / {targets.length} Sizes</span>
+            </div>
+
+            {/* Batch inputs: one resolved source, any number of target templates */}
+            <div className="relative h-10">
+                <Handle type="target" position={Position.Left} id="batch-source-in" className="!w-3 !h-3 !-left-1.5 z-50 !bg-indigo-500" style={{ top: 10 }} title="Source container (resolved-out)" />
+                <Handle type="target" position={Position.Left} id="batch-templates-in" className="!w-3 !h-3 !-left-1.5 z-50 !bg-emerald-500" style={{ top: 30 }} title="Target templates (one or more)" />
+                <div className="flex flex-col justify-center h-full pl-4 text-[8px] font-mono text-slate-500 leading-tight">
+                    <span className={source ? 'text-indigo-300' : ''}>SOURCE {source ? 'LINKED' : 'MISSING'}</span>
+                    <span className={templateCount > 0 ? 'text-emerald-300' : ''}>TEMPLATES {templateCount}</span>
+                </div>
+            </div>
+
+            {/* Summary: one row (and one output handle) per target container */}
+            {targets.length > 0 && (
+                <div className="border-t border-slate-700/30">
+                    <div className="grid grid-cols-[1fr_70px_50px_60px] gap-1 px-3 py-1 text-[8px] font-bold uppercase tracking-wider text-slate-500 bg-slate-900/30">
+                        <span>Size</span><span className="text-right">Target</span><span className="text-right">Scale</span><span className="text-right pr-2">Violations</span>
+                    </div>
+                    {targets.map(({ handleId, canvas, target }) => {
+                        const payload = payloads?.[handleId];
+                        const violations = payload?.safetyReport?.violationCount;
+                        return (
+                            <div key={handleId} className="relative grid grid-cols-[1fr_70px_50px_60px] gap-1 px-3 py-1 text-[9px] font-mono border-t border-slate-700/20 hover:bg-slate-700/20">
+                                <span className="truncate text-slate-300" title={`${target.name} @ ${canvas.width}x${canvas.height}`}>
+                                    {target.name} <span className="text-slate-600">@ {canvas.width}x{canvas.height}</span>
+                                </span>
+                                <span className="text-right text-slate-400">{Math.round(target.bounds.w)}x{Math.round(target.bounds.h)}</span>
+                                <span className="text-right text-slate-300">{payload ? `${payload.scaleFactor.toFixed(2)}x` : '--'}</span>
+                                <span className={`text-right pr-2 ${violations ? 'text-red-400 font-bold' : 'text-slate-500'}`}>{violations === undefined ? '--' : violations}</span>
+                                <Handle type="source" position={Position.Right} id={handleId} className={`!w-2.5 !h-2.5 !-right-1.5 !border-2 ${payload ? '!bg-emerald-500 !border-white' : '!bg-slate-600 !border-slate-400'}`} />
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+});
+
 export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
     const instanceIds = useMemo(() => data.instanceIds || ['inst_0'], [data.instanceIds]);
     const instanceSettings = data.instanceSettings || {};
+    const strategy = data.remapperConfig?.strategy || DEFAULT_REMAP_STRATEGY;
+    const isBatch = !!data.remapperConfig?.batchMode;
     const { setNodes } = useReactFlow();
     const updateNodeInternals = useUpdateNodeInternals();
     const edges = useEdges();
-    const { resolvedRegistry, templateRegistry, payloadRegistry, registerPayload, unregisterNode, removeInstance } = useProceduralStore();
+    const nodes = useNodes();
+    const { psdRegistry, resolvedRegistry, templateRegistry, payloadRegistry, feedbackRegistry, registerPayload, unregisterNode, removeInstance } = useProceduralStore();
 
-    useEffect(() => { updateNodeInternals(id); }, [id, instanceIds.length, data.isMinimized, updateNodeInternals]);
+    // Pixel data always originates from the design PSD; the payload must point at it for compositing/export.
+    const loadPsdNode = nodes.find(n => n.type === 'loadPsd') as Node<PSDNodeData> | undefined;
+    const psdNodeId = loadPsdNode?.id;
+
+    // Batch Mode: one resolved source onto every container of each connected template
+    const batchData = useMemo(() => {
+        if (!isBatch) return { source: null, targets: [] as BatchTarget[], templateCount: 0 };
+        const sourceEdge = edges.find(e => e.target === id && e.targetHandle === 'batch-source-in');
+        const source: MappingContext | null = sourceEdge ? resolvedRegistry[sourceEdge.source]?.[sourceEdge.sourceHandle || ''] || null : null;
+        const templateNodeIds = Array.from(new Set(edges.filter(e => e.target === id && e.targetHandle === 'batch-templates-in').map(e => e.source)));
+        const templates = templateNodeIds.filter(nodeId => !!templateRegistry[nodeId]);
+        const targets: BatchTarget[] = templates.flatMap(templateNodeId => {
+            const template = templateRegistry[templateNodeId];
+            return [...template.containers]
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map(target => ({ handleId: `batch-out-${templateNodeId}-${target.id}`, templateNodeId, canvas: template.canvas, target }));
+        });
+        return { source, targets, templateCount: templates.length };
+    }, [isBatch, edges, id, resolvedRegistry, templateRegistry]);
+
+    useEffect(() => { updateNodeInternals(id); }, [id, instanceIds.length, batchData.targets.length, isBatch, data.isMinimized, updateNodeInternals]);
+
+    const handleBatchToggle = useCallback(() => {
+        setNodes(nds => nds.map(n => n.id === id ? { ...n, data: { ...n.data, remapperConfig: { targetContainerName: null, ...n.data.remapperConfig, batchMode: !n.data.remapperConfig?.batchMode } } } : n));
+    }, [id, setNodes]);
 
     const handleAddInstance = useCallback(() => {
         const newId = `inst_${Date.now()}`;
@@ -86,27 +210,104 @@ export const RemapperNode = memo(({ id, data }: NodeProps<PSDNodeData>) => {
         setNodes(nds => nds.map(n => n.id === id ? { ...n, data: { ...n.data, instanceIds: instanceIds.filter(rid => rid !== instId) } } : n));
     }, [id, instanceIds, removeInstance, setNodes]);
 
+    const handleStrategyChange = useCallback((next: RemapStrategy) => {
+        setNodes(nds => nds.map(n => n.id === id ? { ...n, data: { ...n.data, remapperConfig: { targetContainerName: null, ...n.data.remapperConfig, strategy: next } } } : n));
+    }, [id, setNodes]);
+
+    const handleOpticalToggle = useCallback(() => {
+        setNodes(nds => nds.map(n => n.id === id ? { ...n, data: { ...n.data, remapperConfig: { targetContainerName: null, ...n.data.remapperConfig, optical: !n.data.remapperConfig?.optical } } } : n));
+    }, [id, setNodes]);
+
     const instanceData = useMemo(() => {
         return instanceIds.map(instId => {
             const sourceEdge = edges.find(e => e.target === id && e.targetHandle === `source-in-${instId}`);
             const targetEdge = edges.find(e => e.target === id && e.targetHandle === `target-in-${instId}`);
             
-            const source = sourceEdge ? resolvedRegistry[sourceEdge.source]?.[sourceEdge.sourceHandle || ''] : {};
-            const target = targetEdge ? templateRegistry[targetEdge.source]?.containers.find(c => {
+            const source: MappingContext | null = sourceEdge ? resolvedRegistry[sourceEdge.source]?.[sourceEdge.sourceHandle || ''] || null : null;
+            const target: ContainerDefinition | null = targetEdge ? templateRegistry[targetEdge.source]?.containers.find(c => {
                 // [PHASE 5.1]: Update lookup logic to support slot-out- prefix
                 const slotId = targetEdge.sourceHandle?.replace('slot-out-', '') || targetEdge.sourceHandle?.replace('slot-bounds-', '') || '';
                 return c.id === slotId || c.name === slotId;
-            }) : {};
+            }) || null : null;
             
-            return { instId, source, target: target || { name: 'Unlinked' }, payload: payloadRegistry[id]?.[`result-out-${instId}`] };
+            return { instId, source, target };
+        });
+    }, [instanceIds, edges, id, resolvedRegistry, templateRegistry]);
+
+    const remapJobs = useMemo(() => {
+        const jobs: RemapJob[] = [];
+        instanceData.forEach(({ instId, source, target }) => {
+            if (source && target) jobs.push({ handleId: `result-out-${instId}`, source, target, generationAllowed: instanceSettings[instId]?.generationAllowed });
+        });
+        if (batchData.source) {
+            batchData.targets.forEach(({ handleId, target }) => jobs.push({ handleId, source: batchData.source!, target }));
+        }
+        return jobs;
+    }, [instanceData, instanceSettings, batchData]);
+
+    // Remap Engine: Recompute every wired instance (result-out-{instId}) and batch size (batch-out-*).
+    // registerPayload de-duplicates by signature, so re-running on unrelated renders is cheap.
+    useEffect(() => {
+        if (!psdNodeId) return;
+        remapJobs.forEach(({ handleId, source, target, generationAllowed }) => {
+            if (source.status === 'empty') return;
+            // Feedback Loop: committed Reviewer overrides are keyed by this output handle
+            const feedback = feedbackRegistry[id]?.[handleId];
+            // Distribution and physics measure items by their visible pixels (scans are cached per layer path)
+            const psd = psdRegistry[psdNodeId];
+            const { layoutMode, physicsRules } = source.aiStrategy || {};
+            const needsOptical = data.remapperConfig?.optical || (layoutMode && layoutMode !== 'STANDARD') || physicsRules?.preventOverlap || physicsRules?.preventClipping;
+            const opticalMetrics = psd && needsOptical
+                ? collectOpticalMetrics(psd, source.layers as SerializableLayer[])
+                : undefined;
+            const payload = remapContainer(source, target, data.remapperConfig, { sourceNodeId: psdNodeId, feedback, opticalMetrics });
+            registerPayload(id, handleId, payload, generationAllowed);
         });
-    }, [instanceIds, edges, id, resolvedRegistry, templateRegistry, payloadRegistry]);
+    }, [id, remapJobs, psdNodeId, psdRegistry, data.remapperConfig, feedbackRegistry, registerPayload]);
+
+    // Purge batch payloads whose template (or container) is no longer connected
+    const batchHandlesRef = useRef<string[]>([]);
+    useEffect(() => {
+        const current = batchData.source ? batchData.targets.map(t => t.handleId) : [];
+        batchHandlesRef.current.filter(handleId => !current.includes(handleId)).forEach(handleId => removeInstance(id, handleId));
+        batchHandlesRef.current = current;
+    }, [id, batchData, removeInstance]);
 
     return (
         <BaseNodeShell id={id} title="Procedural Remapper" icon={<Sparkles className="w-4 h-4 text-indigo-400" />} isMinimized={data.isMinimized} onMinimize={() => setNodes(nds => nds.map(n => n.id === id ? { ...n, data: { ...n.data, isMinimized: !n.data.isMinimized } } : n))} onDelete={() => setNodes(nds => nds.filter(n => n.id !== id))} className="w-[450px]">
+            <div className="flex items-center justify-between px-3 py-1.5 bg-slate-900/60 border-b border-slate-700/50">
+                <span className="text-[9px] font-bold uppercase tracking-wider text-slate-500 flex items-center gap-1"><Cpu className="w-3 h-3" /> Strategy</span>
+                <div className="flex items-center">
+                    <select
+                        value={strategy}
+                        onChange={(e) => handleStrategyChange(e.target.value as RemapStrategy)}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        className="nodrag nopan bg-slate-800 border border-slate-700 text-slate-200 text-[10px] font-mono rounded px-1.5 py-0.5 focus:outline-none focus:border-indigo-500"
+                    >
+                        {STRATEGIES.map(s => <option key={s} value={s}>{s}</option>)}
+                    </select>
+                    <button
+                        onClick={handleOpticalToggle}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        className={`nodrag nopan ml-2 px-1.5 py-0.5 rounded border text-[9px] font-bold uppercase tracking-wider transition-colors ${data.remapperConfig?.optical ? 'bg-emerald-900/40 border-emerald-500/50 text-emerald-300' : 'bg-slate-800 border-slate-700 text-slate-500 hover:text-slate-300'}`}
+                        title="Align by optical (visible pixel) bounds instead of layer bounds"
+                    >
+                        Optical
+                    </button>
+                    <button
+                        onClick={handleBatchToggle}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        className={`nodrag nopan ml-1 px-1.5 py-0.5 rounded border text-[9px] font-bold uppercase tracking-wider transition-colors ${isBatch ? 'bg-indigo-900/40 border-indigo-500/50 text-indigo-300' : 'bg-slate-800 border-slate-700 text-slate-500 hover:text-slate-300'}`}
+                        title="Remap one source onto every container of the connected templates"
+                    >
+                        Batch
+                    </button>
+                </div>
+            </div>
+            {isBatch && <RemapperBatchPanel source={batchData.source} targets={batchData.targets} payloads={payloadRegistry[id]} templateCount={batchData.templateCount} />}
             <div className="flex flex-col">
                 {instanceData.map(inst => (
-                    <RemapperInstanceRow key={inst.instId} instId={inst.instId} nodeId={id} settings={instanceSettings[inst.instId]} source={inst.source} target={inst.target} payload={inst.payload} onToggleMinimize={handleToggleMinimize} onDeleteInstance={handleDeleteInstance} />
+                    <RemapperInstanceRow key={inst.instId} instId={inst.instId} nodeId={id} settings={instanceSettings[inst.instId]} source={inst.source || {}} target={inst.target || { name: 'Unlinked' }} payload={payloadRegistry[id]?.[`result-out-${inst.instId}`]} onToggleMinimize={handleToggleMinimize} onDeleteInstance={handleDeleteInstance} />
                 ))}
             </div>
             <button onClick={handleAddInstance} className="w-full py-2 bg-slate-900 hover:bg-slate-700 border-t border-slate-700 text-slate-400 text-[10px] font-bold uppercase tracking-wider flex items-center justify-center space-x-1">
@@ -51,6 +51,8 @@ export const TargetSplitterNode = memo(({ id, data }: NodeProps<PSDNodeData>) =>
   return (
     <BaseNodeShell id={id} title="Target Splitter" icon={<BoxSelect className="w-4 h-4 text-emerald-400" />} isMinimized={data.isMinimized} onMinimize={handleMinimize} onDelete={() => setNodes(nds => nds.filter(n => n.id !== id))} headerColorClass="bg-emerald-950 border-emerald-800" className="min-w-[280px]">
        <Handle type="target" position={Position.Left} id="target-in-metadata" className="!w-3 !h-3 !bg-emerald-500 !border-2 !border-slate-800" />
+       {/* Whole-template output for batch remapping */}
+       <Handle type="source" position={Position.Right} id="template-out" className={`!w-3 !h-3 !border-2 ${template ? '!bg-emerald-500 !border-white' : '!bg-slate-600 !border-slate-400'}`} style={{ top: 20 }} title="Whole template (batch remap)" />
        <div className="space-y-3">
         {!template ? (
           <div className="flex flex-col items-center justify-center py-4 text-slate-500 italic text-[10px] border border-dashed border-slate-700 rounded bg-slate-900/30">Connect Metadata Source...</div>
@@ -65,107 +65,110 @@ const getRecursiveLeafCount = (layer: SerializableLayer): number => {
 };
 
 /**
- * Hook to resolve a template container name to a matching design layer group.
+ * Resolves a template name to a matching group in the design layer tree with diagnostic feedback.
  * 
  * Encapsulates the logic for:
  * 1. Stripping procedural prefixes (e.g., '!!SYMBOLS' -> 'SYMBOLS')
  * 2. Strict & Case-insensitive matching using BREADTH-FIRST SEARCH (BFS)
  * 3. Hierarchy/Content validation using RECURSIVE LEAF COUNTING
+ * 
+ * @param templateName The name of the container/template (e.g. "!!SYMBOLS" or "SYMBOLS").
+ * @param designTree The array of SerializableLayers from the PSD.
+ * @returns ResolverResult object containing the layer (if found), status code, message, and deep count.
  */
-export const usePsdResolver = () => {
-  /**
-   * Resolves a template name to a matching group in the design layer tree with diagnostic feedback.
-   * 
-   * @param templateName The name of the container/template (e.g. "!!SYMBOLS" or "SYMBOLS").
-   * @param designTree The array of SerializableLayers from the PSD.
-   * @returns ResolverResult object containing the layer (if found), status code, message, and deep count.
-   */
-  const resolveLayer = useCallback((templateName: string, designTree: SerializableLayer[] | null): ResolverResult => {
-    // Check if design data is available (Rule 2: Data Locked)
-    if (!designTree) {
-      return { 
-        status: 'DATA_LOCKED', 
-        layer: null, 
-        message: 'Waiting for layer data...',
-        totalCount: 0
-      };
-    }
-
-    if (!templateName) {
-      return { 
-        status: 'NO_NAME', 
-        layer: null, 
-        message: 'No container connected',
-        totalCount: 0
-      };
-    }
-
-    // 1. Strip procedural prefixes (Rule 1: Stripping)
-    const cleanTargetName = templateName.replace(/^!+/, '').trim();
-    
-    if (!cleanTargetName) {
-      return { 
-        status: 'NO_NAME', 
-        layer: null, 
-        message: 'Invalid name',
-        totalCount: 0
-      };
-    }
-
-    // 2. Strict BFS Search (Priority 1: Exact Name, Top-Level Bias)
-    const strictMatch = findLayerBFS(designTree, cleanTargetName, true);
-    
-    if (strictMatch) {
-       const totalCount = getRecursiveLeafCount(strictMatch);
-
-       // Content Validation (Rule: Recursive Empty Check)
-       if (totalCount === 0) {
-           return { 
-             status: 'EMPTY_GROUP', 
-             layer: strictMatch, 
-             message: 'Group is empty',
-             totalCount: 0
-           };
-       }
-       return { 
-         status: 'RESOLVED', 
-         layer: strictMatch, 
-         // UI feedback: Clarify that this is a deep count
-         message: `${totalCount} Layers (Recursive)`,
-         totalCount: totalCount
-       };
-    }
+export const resolveDesignLayer = (templateName: string, designTree: SerializableLayer[] | null): ResolverResult => {
+  // Check if design data is available (Rule 2: Data Locked)
+  if (!designTree) {
+    return { 
+      status: 'DATA_LOCKED', 
+      layer: null, 
+      message: 'Waiting for layer data...',
+      totalCount: 0
+    };
+  }
 
-    // 3. Loose BFS Search (Priority 2: Case Insensitive, Top-Level Bias)
-    const looseMatch = findLayerBFS(designTree, cleanTargetName, false);
-    
-    if (looseMatch) {
-       const totalCount = getRecursiveLeafCount(looseMatch);
-
-       if (totalCount === 0) {
-           return { 
-             status: 'EMPTY_GROUP', 
-             layer: looseMatch, 
-             message: 'Empty (Case Mismatch)',
-             totalCount: 0
-           };
-       }
-       return { 
-         status: 'CASE_MISMATCH', 
-         layer: looseMatch, 
-         message: `Case Mismatch: ${totalCount} Layers (Recursive)`,
-         totalCount: totalCount
-       };
-    }
+  if (!templateName) {
+    return { 
+      status: 'NO_NAME', 
+      layer: null, 
+      message: 'No container connected',
+      totalCount: 0
+    };
+  }
 
-    // 4. No match found
+  // 1. Strip procedural prefixes (Rule 1: Stripping)
+  const cleanTargetName = templateName.replace(/^!+/, '').trim();
+  
+  if (!cleanTargetName) {
     return { 
-      status: 'MISSING_DESIGN_GROUP', 
+      status: 'NO_NAME', 
       layer: null, 
-      message: `No group named "${cleanTargetName}"`,
+      message: 'Invalid name',
       totalCount: 0
     };
-  }, []);
+  }
+
+  // 2. Strict BFS Search (Priority 1: Exact Name, Top-Level Bias)
+  const strictMatch = findLayerBFS(designTree, cleanTargetName, true);
+  
+  if (strictMatch) {
+     const totalCount = getRecursiveLeafCount(strictMatch);
+
+     // Content Validation (Rule: Recursive Empty Check)
+     if (totalCount === 0) {
+         return { 
+           status: 'EMPTY_GROUP', 
+           layer: strictMatch, 
+           message: 'Group is empty',
+           totalCount: 0
+         };
+     }
+     return { 
+       status: 'RESOLVED', 
+       layer: strictMatch, 
+       // UI feedback: Clarify that this is a deep count
+       message: `${totalCount} Layers (Recursive)`,
+       totalCount: totalCount
+     };
+  }
+
+  // 3. Loose BFS Search (Priority 2: Case Insensitive, Top-Level Bias)
+  const looseMatch = findLayerBFS(designTree, cleanTargetName, false);
+  
+  if (looseMatch) {
+     const totalCount = getRecursiveLeafCount(looseMatch);
+
+     if (totalCount === 0) {
+         return { 
+           status: 'EMPTY_GROUP', 
+           layer: looseMatch, 
+           message: 'Empty (Case Mismatch)',
+           totalCount: 0
+         };
+     }
+     return { 
+       status: 'CASE_MISMATCH', 
+       layer: looseMatch, 
+       message: `Case Mismatch: ${totalCount} Layers (Recursive)`,
+       totalCount: totalCount
+     };
+  }
+
+  // 4. No match found
+  return { 
+    status: 'MISSING_DESIGN_GROUP', 
+    layer: null, 
+    message: `No group named "${cleanTargetName}"`,
+    totalCount: 0
+  };
+};
+
+/**
+ * Hook exposing resolveDesignLayer as a stable callback for resolver nodes.
+ */
+export const usePsdResolver = () => {
+  const resolveLayer = useCallback((templateName: string, designTree: SerializableLayer[] | null): ResolverResult =>
+    resolveDesignLayer(templateName, designTree), []);
 
   return { resolveLayer };
 };
\ No newline at end of file
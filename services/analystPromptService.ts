@@ -0,0 +1,183 @@
+import type { Psd } from 'ag-psd';
+import { ContainerContext, MappingContext, SerializableLayer, TransformedLayer, TransformedPayload, VisualAnchor } from '../types';
+import { renderPayloadToCanvas, createCanvas } from './psdService';
+import type { LlmPart } from './llmProviderService';
+
+// Longest edge of the source crop sent to the model (matches the 512px visual anchors)
+export const SOURCE_CROP_MAX_EDGE = 512;
+
+// Knowledge rules outside any container block
+const GLOBAL_SCOPE = 'GLOBAL CONTEXT';
+
+export interface AnalystPromptInput {
+  source: MappingContext;
+  target: { name: string, bounds: ContainerContext['bounds'] };
+  // Parsed knowledge scopes (useKnowledgeScoper), null when no Knowledge node is wired or it is muted
+  scopes: Record<string, string[]> | null;
+  visualAnchors: VisualAnchor[];
+  // PNG data URL of the source container (see renderSourceCrop)
+  sourceCrop: string | null;
+}
+
+export interface AnalystPrompt {
+  systemInstruction: string;
+  parts: LlmPart[];
+  // What went into the request, for the chat log
+  summary: { layerCount: number, ruleCount: number, imageCount: number };
+}
+
+const normalizeScope = (name: string): string => name.replace(/^!+/, '').trim().toUpperCase();
+
+/**
+ * Picks the knowledge rules that apply to a container: the global rules plus the container's own block.
+ * Blocks match by name (case-insensitive, procedural prefix ignored); failing that,
+ * a block whose header contains the container name ('HERO IMAGE' for 'HERO') is used.
+ */
+export const selectContainerRules = (scopes: Record<string, string[]>, containerName: string): { global: string[], container: string[] } => {
+  const name = normalizeScope(containerName);
+  const keys = Object.keys(scopes).filter(key => key !== GLOBAL_SCOPE);
+  const key = keys.find(k => k === name) || keys.find(k => name.length > 0 && k.includes(name));
+  return { global: scopes[GLOBAL_SCOPE] || [], container: key ? scopes[key] : [] };
+};
+
+// Compact layer tree: IDs for overrides, geometry relative to the container origin
+const serializeLayers = (layers: SerializableLayer[], origin: { x: number, y: number }): object[] =>
+  layers.map(layer => ({
+    id: layer.id,
+    name: layer.name,
+    type: layer.type,
+    visible: layer.isVisible,
+    opacity: Number(layer.opacity.toFixed(2)),
+    x: Math.round(layer.coords.x - origin.x),
+    y: Math.round(layer.coords.y - origin.y),
+    w: Math.round(layer.coords.w),
+    h: Math.round(layer.coords.h),
+    ...(layer.children && layer.children.length > 0 ? { children: serializeLayers(layer.children, origin) } : {})
+  }));
+
+const countLayers = (layers: SerializableLayer[]): number =>
+  layers.reduce((sum, layer) => sum + 1 + (layer.children ? countLayers(layer.children) : 0), 0);
+
+const toInlineImage = (dataUrl: string, mimeType = 'image/png'): LlmPart => {
+  const [header, data] = dataUrl.includes('base64,') ? dataUrl.split('base64,') : ['', dataUrl];
+  const match = header.match(/^data:([^;]+);/);
+  return { inlineData: { mimeType: match ? match[1] : mimeType, data } };
+};
+
+const withIdentity = (layers: SerializableLayer[]): TransformedLayer[] =>
+  layers.map(layer => ({
+    ...layer,
+    transform: { scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 },
+    children: layer.children ? withIdentity(layer.children) : undefined
+  }));
+
+/**
+ * Renders the untransformed source container through the preview compositor,
+ * downscaled to SOURCE_CROP_MAX_EDGE, as a PNG data URL.
+ */
+export const renderSourceCrop = async (psd: Psd, source: MappingContext): Promise<string | null> => {
+  const bounds = source.container.bounds;
+  const payload: TransformedPayload = {
+    status: 'success',
+    sourceNodeId: '',
+    sourceContainer: source.container.containerName,
+    targetContainer: source.container.containerName,
+    layers: withIdentity(source.layers as SerializableLayer[]),
+    scaleFactor: 1,
+    metrics: { source: { w: bounds.w, h: bounds.h }, target: { w: bounds.w, h: bounds.h } },
+    targetBounds: { ...bounds }
+  };
+
+  const canvas = await renderPayloadToCanvas(payload, psd);
+  if (!canvas) return null;
+
+  const scale = Math.min(1, SOURCE_CROP_MAX_EDGE / Math.max(canvas.width, canvas.height));
+  if (scale === 1) return canvas.toDataURL('image/png');
+
+  const crop = createCanvas(Math.max(1, Math.round(canvas.width * scale)), Math.max(1, Math.round(canvas.height * scale)));
+  crop.getContext('2d')?.drawImage(canvas, 0, 0, crop.width, crop.height);
+  return crop.toDataURL('image/png');
+};
+
+/**
+ * Builds the multimodal Analyst request: the resolved layer tree, source and target geometry,
+ * the container-scoped knowledge rules, the source container crop and the visual anchors,
+ * asking for the complete LayoutStrategy JSON.
+ */
+export const buildAnalystPrompt = (input: AnalystPromptInput): AnalystPrompt => {
+  const { source, target } = input;
+  const sourceBounds = source.container.bounds;
+  const layers = source.layers as SerializableLayer[];
+  const rules = input.scopes ? selectContainerRules(input.scopes, source.container.containerName) : { global: [], container: [] };
+  const ruleCount = rules.global.length + rules.container.length;
+
+  const systemInstruction = `
+    ROLE: Design Analyst for procedural layout recomposition.
+    TASK: Plan how the SOURCE container's layers are re-laid out inside the TARGET container.
+    Coordinates are pixels relative to each container's top-left corner.
+
+    TRIANGULATION: Back the strategy with three independent kinds of evidence and report them in 'triangulation':
+    1. visual_identification: what the SOURCE CROP image shows (subjects, text blocks, logos, hierarchy).
+    2. knowledge_correlation: which KNOWLEDGE RULES constrain this container (quote them, or state none apply).
+    3. metadata_validation: what the LAYER TREE names, types and geometry confirm.
+    evidence_count is how many of the three agree; confidence_verdict is HIGH (3), MEDIUM (2) or LOW (0-1).
+
+    OUTPUT: A single LayoutStrategy JSON object:
+    {
+      "method": "GEOMETRIC" | "GENERATIVE" | "HYBRID",
+      "suggestedScale": number (uniform scale applied to the whole source block),
+      "anchor": "TOP" | "CENTER" | "BOTTOM" | "STRETCH",
+      "generativePrompt": string (empty unless method is GENERATIVE or HYBRID),
+      "reasoning": string,
+      "layoutMode": "STANDARD" | "DISTRIBUTE_HORIZONTAL" | "DISTRIBUTE_VERTICAL" | "GRID",
+      "physicsRules": { "preventOverlap": boolean, "preventClipping": boolean },
+      "overrides": [{
+        "layerId": string (an id from the LAYER TREE),
+        "xOffset": number, "yOffset": number (new position relative to the TARGET origin),
+        "individualScale": number (multiplies suggestedScale),
+        "rotation": number (optional, degrees),
+        "layoutRole": "flow" | "static" | "overlay" | "background",
+        "linkedAnchorId": string (overlays only: the layerId it attaches to),
+        "citedRule": string (the knowledge rule that motivated it, if any)
+      }],
+      "directives": string[],
+      "triangulation": {
+        "visual_identification": string, "knowledge_correlation": string, "metadata_validation": string,
+        "evidence_count": number, "confidence_verdict": "HIGH" | "MEDIUM" | "LOW"
+      }
+    }
+    Only override layers that need individual treatment; reference layer IDs exactly as given.
+  `;
+
+  const context = `
+    SOURCE CONTAINER: "${source.container.containerName}"
+      Bounds: x=${sourceBounds.x}, y=${sourceBounds.y}, w=${sourceBounds.w}, h=${sourceBounds.h} (canvas ${source.container.canvasDimensions.w}x${source.container.canvasDimensions.h})
+      Aspect ratio: ${(sourceBounds.w / (sourceBounds.h || 1)).toFixed(3)}
+
+    TARGET CONTAINER: "${target.name}"
+      Bounds: x=${target.bounds.x}, y=${target.bounds.y}, w=${target.bounds.w}, h=${target.bounds.h}
+      Aspect ratio: ${(target.bounds.w / (target.bounds.h || 1)).toFixed(3)}
+      Fit scale: ${Math.min(target.bounds.w / (sourceBounds.w || 1), target.bounds.h / (sourceBounds.h || 1)).toFixed(4)}, fill scale: ${Math.max(target.bounds.w / (sourceBounds.w || 1), target.bounds.h / (sourceBounds.h || 1)).toFixed(4)}
+
+    LAYER TREE (${countLayers(layers)} layers; within each group the first entry is the bottom-most):
+    ${JSON.stringify(serializeLayers(layers, sourceBounds))}
+
+    KNOWLEDGE RULES:
+    ${input.scopes === null ? 'Knowledge is muted or not connected.' : ruleCount === 0 ? 'No rules apply to this container.' : [
+      ...(rules.global.length > 0 ? ['[GLOBAL]', ...rules.global] : []),
+      ...(rules.container.length > 0 ? [`[${normalizeScope(source.container.containerName)}]`, ...rules.container] : [])
+    ].join('\n    ')}
+
+    IMAGES: ${input.sourceCrop ? 'The first image is the SOURCE CROP.' : 'No source crop available.'}${input.visualAnchors.length > 0 ? ` ${input.visualAnchors.length} brand VISUAL ANCHOR image(s) follow${input.sourceCrop ? ' it' : ''}.` : ''}
+  `;
+
+  const parts: LlmPart[] = [{ text: context }];
+  if (input.sourceCrop) parts.push(toInlineImage(input.sourceCrop));
+  input.visualAnchors.forEach(anchor => parts.push({ inlineData: { mimeType: anchor.mimeType, data: anchor.data } }));
+
+  return {
+    systemInstruction,
+    parts,
+    summary: { layerCount: countLayers(layers), ruleCount, imageCount: parts.length - 1 }
+  };
+};
@@ -0,0 +1,202 @@
+import type { Node, Edge } from 'reactflow';
+import { ContainerDefinition, PSDNodeData } from '../types';
+
+// Maximum relative aspect-ratio difference accepted by the geometric fallback (25%)
+export const ASPECT_RATIO_TOLERANCE = 0.25;
+
+export type ContainerMatchMethod = 'NAME' | 'CASE_INSENSITIVE' | 'ASPECT_RATIO';
+
+export interface ContainerMatch {
+  source: ContainerDefinition;
+  target: ContainerDefinition;
+  method: ContainerMatchMethod;
+}
+
+export interface ContainerMatchResult {
+  matches: ContainerMatch[];
+  unmatchedSources: ContainerDefinition[];
+  unmatchedTargets: ContainerDefinition[];
+}
+
+export interface AutoWireReport extends ContainerMatchResult {
+  createdNodes: string[];
+  createdEdges: number;
+  error?: string;
+}
+
+export interface AutoWirePlan {
+  nodes: Node<PSDNodeData>[];
+  edges: Edge[];
+  report: AutoWireReport;
+}
+
+// Strips procedural prefixes ('!!SYMBOLS' -> 'SYMBOLS') like the resolver does
+const cleanName = (name: string): string => name.replace(/^!+/, '').trim();
+
+// Loose key: case-insensitive, separators ignored ('Hero_Image' === 'hero image')
+const looseKey = (name: string): string => cleanName(name).toLowerCase().replace(/[\s_\-.]+/g, '');
+
+const aspectRatio = (container: ContainerDefinition): number | null => {
+  const { w, h } = container.bounds;
+  return w > 0 && h > 0 ? w / h : null;
+};
+
+/**
+ * Matches source (design) containers to target containers one-to-one.
+ * Passes run in priority order and each only sees what earlier passes left unmatched:
+ * 1. NAME: identical names after prefix stripping.
+ * 2. CASE_INSENSITIVE: identical loose keys (case and separators ignored).
+ * 3. ASPECT_RATIO: greedy pairing by closest aspect ratio within ASPECT_RATIO_TOLERANCE.
+ *
+ * @param sources Containers of the design PSD template (extractTemplateMetadata).
+ * @param targets Containers of the target template.
+ */
+export const matchContainers = (sources: ContainerDefinition[], targets: ContainerDefinition[]): ContainerMatchResult => {
+  const matches: ContainerMatch[] = [];
+  let remainingSources = [...sources];
+  let remainingTargets = [...targets];
+
+  const runPass = (method: ContainerMatchMethod, key: (c: ContainerDefinition) => string) => {
+    remainingSources = remainingSources.filter(source => {
+      const target = remainingTargets.find(t => key(t) === key(source));
+      if (!target) return true;
+      matches.push({ source, target, method });
+      remainingTargets = remainingTargets.filter(t => t !== target);
+      return false;
+    });
+  };
+
+  runPass('NAME', c => cleanName(c.name));
+  runPass('CASE_INSENSITIVE', c => looseKey(c.name));
+
+  // Geometric fallback: rank every remaining pair by relative aspect-ratio difference
+  const candidates: { source: ContainerDefinition, target: ContainerDefinition, delta: number }[] = [];
+  remainingSources.forEach(source => {
+    const sourceRatio = aspectRatio(source);
+    if (sourceRatio === null) return;
+    remainingTargets.forEach(target => {
+      const targetRatio = aspectRatio(target);
+      if (targetRatio === null) return;
+      const delta = Math.abs(sourceRatio - targetRatio) / Math.max(sourceRatio, targetRatio);
+      if (delta <= ASPECT_RATIO_TOLERANCE) candidates.push({ source, target, delta });
+    });
+  });
+  candidates.sort((a, b) => a.delta - b.delta);
+  candidates.forEach(({ source, target }) => {
+    if (!remainingSources.includes(source) || !remainingTargets.includes(target)) return;
+    matches.push({ source, target, method: 'ASPECT_RATIO' });
+    remainingSources = remainingSources.filter(s => s !== source);
+    remainingTargets = remainingTargets.filter(t => t !== target);
+  });
+
+  return { matches, unmatchedSources: remainingSources, unmatchedTargets: remainingTargets };
+};
+
+const EMPTY_NODE_DATA: PSDNodeData = { fileName: null, template: null, validation: null, designLayers: null };
+
+/**
+ * Plans the graph changes that wire every matched container pair:
+ * TemplateSplitter slot -> Resolver channel -> Remapper source, TargetSplitter slot -> Remapper target.
+ * Existing wiring is reused (channels already fed by a slot, instances already bound to a pair),
+ * free channels / unwired instances are filled next, and new ones are appended last.
+ * Missing splitter, resolver and remapper nodes are created next to their upstream node.
+ *
+ * @param nodes Current graph nodes.
+ * @param edges Current graph edges.
+ * @returns The next nodes/edges and a report of matches, unmatched containers and created items.
+ */
+export const planAutoWire = (nodes: Node<PSDNodeData>[], edges: Edge[]): AutoWirePlan => {
+  const emptyReport: AutoWireReport = { matches: [], unmatchedSources: [], unmatchedTargets: [], createdNodes: [], createdEdges: 0 };
+
+  const loadPsd = nodes.find(n => n.type === 'loadPsd');
+  const targetTemplate = nodes.find(n => n.type === 'targetTemplate');
+  const sourceTemplate = loadPsd?.data.template;
+  const destinationTemplate = targetTemplate?.data.template;
+  if (!loadPsd || !sourceTemplate) return { nodes, edges, report: { ...emptyReport, error: 'Load a design PSD first.' } };
+  if (!targetTemplate || !destinationTemplate) return { nodes, edges, report: { ...emptyReport, error: 'Load a target template first.' } };
+
+  const result = matchContainers(sourceTemplate.containers, destinationTemplate.containers);
+  const report: AutoWireReport = { ...result, createdNodes: [], createdEdges: 0 };
+  if (result.matches.length === 0) return { nodes, edges, report };
+
+  let nextNodes = [...nodes];
+  let nextEdges = [...edges];
+  const stamp = Date.now();
+
+  // Creates a single-input edge, replacing whatever was plugged into the target handle
+  const connect = (source: string, sourceHandle: string, target: string, targetHandle: string) => {
+    const exists = nextEdges.some(e => e.source === source && e.sourceHandle === sourceHandle && e.target === target && e.targetHandle === targetHandle);
+    if (exists) return;
+    nextEdges = nextEdges.filter(e => e.target !== target || e.targetHandle !== targetHandle);
+    nextEdges.push({ id: `e-auto-${stamp}-${report.createdEdges}`, source, sourceHandle, target, targetHandle });
+    report.createdEdges++;
+  };
+
+  const ensureNode = (type: string, upstream: Node<PSDNodeData>, extraData: Partial<PSDNodeData> = {}): Node<PSDNodeData> => {
+    const existing = nextNodes.find(n => n.type === type);
+    if (existing) return existing;
+    const created: Node<PSDNodeData> = {
+      id: `node-${type}-${stamp}`,
+      type,
+      position: { x: upstream.position.x + 420, y: upstream.position.y },
+      data: { ...EMPTY_NODE_DATA, ...extraData }
+    };
+    nextNodes.push(created);
+    report.createdNodes.push(created.id);
+    return created;
+  };
+
+  const templateSplitter = ensureNode('templateSplitter', loadPsd);
+  connect(loadPsd.id, 'psd-output', templateSplitter.id, 'target-in-psd');
+  const targetSplitter = ensureNode('targetSplitter', targetTemplate);
+  connect(targetTemplate.id, 'source-out-metadata', targetSplitter.id, 'target-in-metadata');
+  const resolver = ensureNode('containerResolver', templateSplitter, { channelCount: 10 });
+  const remapper = ensureNode('remapper', resolver, { remapperConfig: { targetContainerName: null } });
+
+  // --- Resolver Channels ---
+  let channelCount = resolver.data.channelCount || 10;
+  const channelFor = (sourceName: string): number => {
+    const fedBy = nextEdges.find(e => e.target === resolver.id && e.source === templateSplitter.id && e.sourceHandle === `source-out-slot-${sourceName}`);
+    if (fedBy?.targetHandle) return Number(fedBy.targetHandle.replace('target-in-slot-', ''));
+    for (let i = 0; i < channelCount; i++) {
+      if (!nextEdges.some(e => e.target === resolver.id && e.targetHandle === `target-in-slot-${i}`)) return i;
+    }
+    return channelCount++;
+  };
+
+  // --- Remapper Instances ---
+  const instanceIds = [...(remapper.data.instanceIds || ['inst_0'])];
+  const instanceSettings = { ...(remapper.data.instanceSettings || {}) };
+  const instanceFor = (sourceName: string, targetId: string, index: number): string => {
+    const isBound = (instId: string) =>
+      nextEdges.some(e => e.target === remapper.id && e.targetHandle === `source-in-${instId}` && e.source === resolver.id && e.sourceHandle === `resolved-out-${sourceName}`) &&
+      nextEdges.some(e => e.target === remapper.id && e.targetHandle === `target-in-${instId}` && e.source === targetSplitter.id && e.sourceHandle === `slot-out-${targetId}`);
+    const isFree = (instId: string) => !nextEdges.some(e => e.target === remapper.id && (e.targetHandle === `source-in-${instId}` || e.targetHandle === `target-in-${instId}`));
+
+    const bound = instanceIds.find(isBound);
+    if (bound) return bound;
+    const free = instanceIds.find(isFree);
+    if (free) return free;
+    const created = `inst_${stamp}_${index}`;
+    instanceIds.push(created);
+    instanceSettings[created] = { isMinimized: false };
+    return created;
+  };
+
+  result.matches.forEach(({ source, target }, index) => {
+    const channel = channelFor(source.name);
+    connect(templateSplitter.id, `source-out-slot-${source.name}`, resolver.id, `target-in-slot-${channel}`);
+
+    const instId = instanceFor(source.name, target.id, index);
+    connect(resolver.id, `resolved-out-${source.name}`, remapper.id, `source-in-${instId}`);
+    connect(targetSplitter.id, `slot-out-${target.id}`, remapper.id, `target-in-${instId}`);
+  });
+
+  nextNodes = nextNodes.map(n => {
+    if (n.id === resolver.id) return { ...n, data: { ...n.data, channelCount } };
+    if (n.id === remapper.id) return { ...n, data: { ...n.data, instanceIds, instanceSettings } };
+    return n;
+  });
+
+  return { nodes: nextNodes, edges: nextEdges, report };
+};
@@ -0,0 +1,129 @@
+import { renderCompositeJob, CompositeJob } from './compositorCore';
+
+// --- MESSAGE PROTOCOL ---
+export type CompositorRequest =
+  | { type: 'cache'; entries: { key: string; bitmap: ImageBitmap }[] }
+  | { type: 'evict'; keepPrefix: string }
+  | { type: 'render'; requestId: number; channel: string; generationId?: number; cachePrefix: string; previewUrl?: string; job: CompositeJob };
+
+export type CompositorResponse =
+  | { type: 'result'; requestId: number; dataUrl: string }
+  | { type: 'cancelled'; requestId: number }
+  | { type: 'error'; requestId: number; message: string };
+
+// DOM lib typings describe `self` as Window; narrow it to the worker surface we use.
+const scope = self as unknown as {
+  postMessage: (message: CompositorResponse) => void;
+  onmessage: ((event: MessageEvent<CompositorRequest>) => void) | null;
+};
+
+// Layer bitmaps keyed by `${psdKey}:${pathId}` (masks: `${psdKey}:${pathId}#mask`), transferred once from the main thread
+const bitmapCache = new Map<string, ImageBitmap>();
+
+// Latest render per channel (preview row). A newer payload generation supersedes every render of an older one,
+// which aborts at its next checkpoint; requests without a generationId supersede by arrival order.
+const latestRequest = new Map<string, { requestId: number, generationId?: number }>();
+
+// A request from an older generation than the channel's latest is stale on arrival (out-of-order delivery)
+const isStaleGeneration = (request: Extract<CompositorRequest, { type: 'render' }>): boolean => {
+  const latest = latestRequest.get(request.channel);
+  return !!latest && latest.generationId !== undefined && request.generationId !== undefined && request.generationId < latest.generationId;
+};
+
+// Yield to the event loop every N layers so newer render requests can arrive mid-render
+const YIELD_EVERY = 8;
+
+const toDataUrl = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + CHUNK)));
+  }
+  return `data:${blob.type || 'image/png'};base64,${btoa(binary)}`;
+};
+
+const loadPreview = async (url: string | undefined): Promise<ImageBitmap | null> => {
+  if (!url) return null;
+  try {
+    const response = await fetch(url);
+    return await createImageBitmap(await response.blob());
+  } catch (e) {
+    console.warn('[COMPOSITOR] Failed to load preview texture', e);
+    return null;
+  }
+};
+
+const handleRender = async (request: Extract<CompositorRequest, { type: 'render' }>) => {
+  const { requestId, channel, cachePrefix, job } = request;
+  const isCurrent = () => latestRequest.get(channel)?.requestId === requestId;
+
+  try {
+    const previewImage = await loadPreview(request.previewUrl);
+    if (!isCurrent()) {
+      scope.postMessage({ type: 'cancelled', requestId });
+      return;
+    }
+
+    const canvas = new OffscreenCanvas(job.width, job.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+
+    let drawn = 0;
+    const completed = await renderCompositeJob(ctx, job, {
+      getLayerSource: (pathId) => bitmapCache.get(`${cachePrefix}:${pathId}`) || null,
+      getMaskSource: (pathId) => bitmapCache.get(`${cachePrefix}:${pathId}#mask`) || null,
+      createBuffer: (width, height) => {
+        const buffer = new OffscreenCanvas(width, height);
+        const bufferCtx = buffer.getContext('2d');
+        return bufferCtx ? { canvas: buffer, ctx: bufferCtx } : null;
+      },
+      previewImage,
+      checkpoint: async () => {
+        if (++drawn % YIELD_EVERY === 0) await new Promise(resolve => setTimeout(resolve, 0));
+        return isCurrent();
+      }
+    });
+    previewImage?.close();
+
+    if (!completed || !isCurrent()) {
+      if (job.debug) console.log(`[COMPOSITOR] Render ${requestId} on ${channel} superseded (generation ${request.generationId ?? '-'} -> ${latestRequest.get(channel)?.generationId ?? '-'})`);
+      scope.postMessage({ type: 'cancelled', requestId });
+      return;
+    }
+
+    // PNG preserves transparency (JPEG forces black/white background)
+    const blob = await canvas.convertToBlob({ type: 'image/png' });
+    scope.postMessage({ type: 'result', requestId, dataUrl: await toDataUrl(blob) });
+  } catch (err: any) {
+    scope.postMessage({ type: 'error', requestId, message: err?.message || String(err) });
+  }
+};
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'cache':
+      request.entries.forEach(({ key, bitmap }) => {
+        bitmapCache.get(key)?.close();
+        bitmapCache.set(key, bitmap);
+      });
+      break;
+    case 'evict':
+      Array.from(bitmapCache.keys()).forEach(key => {
+        if (key.startsWith(`${request.keepPrefix}:`)) return;
+        bitmapCache.get(key)?.close();
+        bitmapCache.delete(key);
+      });
+      break;
+    case 'render':
+      if (isStaleGeneration(request)) {
+        if (request.job.debug) console.log(`[COMPOSITOR] Render ${request.requestId} on ${request.channel} dropped (generation ${request.generationId} is stale)`);
+        scope.postMessage({ type: 'cancelled', requestId: request.requestId });
+        break;
+      }
+      latestRequest.set(request.channel, { requestId: request.requestId, generationId: request.generationId });
+      handleRender(request);
+      break;
+  }
+};
@@ -0,0 +1,480 @@
+import type { TransformedLayer, TransformedPayload } from '../types';
+
+// Shared by the main-thread fallback and the compositor worker (no DOM access beyond canvas APIs).
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface CompositeJob {
+  layers: TransformedLayer[];
+  width: number;
+  height: number;
+  // Origin for normalization (Global -> Local conversion)
+  originX: number;
+  originY: number;
+  // Background fill; defaults to Slate 900, null keeps the canvas transparent
+  matte?: string | null;
+  debug?: boolean;
+}
+
+// Offscreen surface used to isolate a layer (mask) or a clipping stack before it is blended down
+export interface CompositeBuffer {
+  canvas: HTMLCanvasElement | OffscreenCanvas;
+  ctx: Canvas2D;
+}
+
+export interface CompositeSources {
+  // Resolves the original pixel data of a layer by its deterministic path ID
+  getLayerSource: (pathId: string) => CanvasImageSource | null;
+  // Resolves a layer mask as an alpha image (alpha = mask gray value)
+  getMaskSource?: (pathId: string) => CanvasImageSource | null;
+  // Allocates a transparent buffer; without it masks and clipping groups are skipped
+  createBuffer?: (width: number, height: number) => CompositeBuffer | null;
+  // Generative preview texture (if the payload carries one)
+  previewImage?: CanvasImageSource | null;
+  // Awaited between layers; resolving false aborts the render (superseded job)
+  checkpoint?: () => Promise<boolean>;
+}
+
+/**
+ * Builds the geometry of a composite job from a payload.
+ * Uses targetBounds for geometry if available (to fix origin mismatch), falls back to metrics.target.
+ */
+export const buildCompositeJob = (payload: TransformedPayload, debug = false): CompositeJob => ({
+  layers: payload.layers,
+  width: Math.max(1, Math.round(payload.targetBounds ? payload.targetBounds.w : payload.metrics.target.w)),
+  height: Math.max(1, Math.round(payload.targetBounds ? payload.targetBounds.h : payload.metrics.target.h)),
+  originX: payload.targetBounds ? payload.targetBounds.x : 0,
+  originY: payload.targetBounds ? payload.targetBounds.y : 0,
+  debug
+});
+
+// --- BLEND MODES ---
+// Photoshop blend keys (ag-psd) -> canvas composite operations.
+// Modes without a canvas equivalent map to the closest visual approximation.
+const BLEND_MODE_MAP: Record<string, GlobalCompositeOperation> = {
+  'pass through': 'source-over',
+  'normal': 'source-over',
+  'dissolve': 'source-over',
+  'darken': 'darken',
+  'multiply': 'multiply',
+  'color burn': 'color-burn',
+  'linear burn': 'multiply',
+  'darker color': 'darken',
+  'lighten': 'lighten',
+  'screen': 'screen',
+  'color dodge': 'color-dodge',
+  'linear dodge': 'lighter',
+  'lighter color': 'lighten',
+  'overlay': 'overlay',
+  'soft light': 'soft-light',
+  'hard light': 'hard-light',
+  'vivid light': 'hard-light',
+  'linear light': 'hard-light',
+  'pin light': 'hard-light',
+  'hard mix': 'hard-light',
+  'difference': 'difference',
+  'exclusion': 'exclusion',
+  'subtract': 'difference',
+  'divide': 'color-dodge',
+  'hue': 'hue',
+  'saturation': 'saturation',
+  'color': 'color',
+  'luminosity': 'luminosity'
+};
+
+export const toCompositeOperation = (blendMode?: string): GlobalCompositeOperation =>
+  (blendMode && BLEND_MODE_MAP[blendMode]) || 'source-over';
+
+// Helper for drawing consistent AI placeholders
+const drawGenerativePlaceholder = (ctx: Canvas2D, x: number, y: number, w: number, h: number) => {
+  ctx.fillStyle = 'rgba(192, 132, 252, 0.3)'; // Purple tint
+  ctx.strokeStyle = 'rgba(192, 132, 252, 0.8)';
+  ctx.lineWidth = 1;
+  ctx.fillRect(x, y, w, h);
+  ctx.strokeRect(x, y, w, h);
+
+  // Label
+  ctx.fillStyle = '#e9d5ff';
+  ctx.font = '10px monospace';
+  ctx.fillText('AI GEN', x + 4, y + 12);
+};
+
+// Thrown by the checkpoint inside nested buffers; caught once at the top of the render
+class RenderAborted extends Error {}
+
+/**
+ * Paints a composite job onto a 2D context using a Recursive Painter's Algorithm
+ * in a "Clean Room" canvas environment. Deterministic: the same job and sources
+ * always produce the same pixels, whichever thread runs it.
+ *
+ * Blend modes map to canvas composite operations. Masked layers, clipping stacks
+ * (a base layer plus the consecutive `clipping` layers above it) and groups with
+ * opacity below 1 or a non pass-through mode are rendered into isolated buffers first,
+ * then blended down with the layer's opacity and mode (nested folder fades multiply).
+ * Drop shadow and color stroke effects are approximated on that buffer, scaled with the layer.
+ *
+ * @param ctx Target context, sized to job.width x job.height.
+ * @param job Geometry and layer tree to paint.
+ * @param sources Pixel lookups, buffer allocation and the optional cancellation checkpoint.
+ * @returns false when the render was aborted by the checkpoint, true otherwise.
+ */
+export const renderCompositeJob = async (ctx: Canvas2D, job: CompositeJob, sources: CompositeSources): Promise<boolean> => {
+  const { width, height, originX, originY, debug } = job;
+
+  // --- CLEAN ROOM SETUP ---
+  // 1. Enforce High Fidelity Smoothing
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  // 2. Reset Composition Logic
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.globalAlpha = 1.0;
+
+  // 3. Absolute Clear (Transparent)
+  ctx.clearRect(0, 0, width, height);
+
+  // 4. "Safe Zone" Matte Fill - Solid Slate 900
+  // Forces the output image to match target dimensions and provides visual context.
+  // A null matte keeps the background transparent (fidelity comparisons).
+  if (job.matte !== null) {
+    ctx.fillStyle = job.matte || '#0f172a'; // Solid Slate 900
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  if (debug) console.log(`[COMPOSITOR] Starting render for ${job.layers.length} root layers. Target: ${width}x${height}, Origin: ${originX},${originY}`);
+
+  // Opacity arrives normalized (0-1) from the parser; 0 is a deliberately invisible layer
+  const getOpacity = (layer: TransformedLayer): number =>
+    (typeof layer.opacity === 'number' && Number.isFinite(layer.opacity)) ? Math.max(0, Math.min(1, layer.opacity)) : 1.0;
+
+  const allocate = (): CompositeBuffer | null => {
+    const buffer = sources.createBuffer ? sources.createBuffer(width, height) : null;
+    if (!buffer) return null;
+    buffer.ctx.imageSmoothingEnabled = true;
+    buffer.ctx.imageSmoothingQuality = 'high';
+    return buffer;
+  };
+
+  // Buffers share the job size, so blending one down is a 1:1 pixel copy. Smoothing stays off for it:
+  // some engines (Skia with 'high' quality) resample even at identity and soften every edge.
+  const blit = (target: Canvas2D, buffer: CompositeBuffer) => {
+    const smoothing = target.imageSmoothingEnabled;
+    target.imageSmoothingEnabled = false;
+    target.drawImage(buffer.canvas, 0, 0);
+    target.imageSmoothingEnabled = smoothing;
+  };
+
+  const hasMask = (layer: TransformedLayer) => !!layer.mask && !!sources.getMaskSource;
+
+  // ag-psd reports 'pass through' for folders; a missing key is treated the same way
+  const isPassThrough = (layer: TransformedLayer) => !layer.blendMode || layer.blendMode === 'pass through';
+
+  // --- LEAF PAINTING (Pixel / Generative) ---
+  // Paints the layer pixels with whatever alpha / composite mode the caller set on the context.
+  const paintLeaf = (target: Canvas2D, layer: TransformedLayer) => {
+    const { x, y, w: dw, h: dh } = layer.coords;
+
+    // COORDINATE NORMALIZATION: Transform Global Coords -> Local Canvas Coords
+    const drawX = x - originX;
+    const drawY = y - originY;
+
+    if (debug) console.log(`[DRAW] "${layer.name}" at global x:${Math.round(x)}, y:${Math.round(y)} -> local x:${Math.round(drawX)}, y:${Math.round(drawY)}`);
+
+    // SURGICAL SWAP LOGIC
+    // If the layer is generative, we MUST bypass the original layer lookup entirely.
+    if (layer.type === 'generative') {
+      if (sources.previewImage) {
+        try {
+          target.drawImage(sources.previewImage, drawX, drawY, dw, dh);
+        } catch (e) {
+          drawGenerativePlaceholder(target, drawX, drawY, dw, dh);
+        }
+      } else {
+        drawGenerativePlaceholder(target, drawX, drawY, dw, dh);
+      }
+      return;
+    }
+
+    // STANDARD LAYER: Lookup pixels in original binary
+    const source = sources.getLayerSource(layer.id);
+    if (!source) {
+      if (debug) console.warn(`[COMPOSITOR] Source canvas missing for layer: ${layer.name} (ID: ${layer.id})`);
+      return;
+    }
+    if (layer.transform && layer.transform.rotation) {
+      // Scoped: masks and strokes later blit onto the same buffer context in document space
+      const rot = (layer.transform.rotation * Math.PI) / 180;
+      target.save();
+      target.translate(drawX + dw / 2, drawY + dh / 2);
+      target.rotate(rot);
+      target.drawImage(source, -dw / 2, -dh / 2, dw, dh);
+      target.restore();
+    } else {
+      // Direct Draw (Standard)
+      target.drawImage(source, drawX, drawY, dw, dh);
+    }
+  };
+
+  // --- LAYER MASKS ---
+  // The mask is positioned relative to the layer's original bounds, so it follows the layer's transform.
+  const applyMask = (buffer: CompositeBuffer, layer: TransformedLayer) => {
+    const mask = layer.mask;
+    const source = mask ? sources.getMaskSource?.(layer.id) : null;
+    if (!mask || !source) return;
+    const matte = allocate();
+    if (!matte) return;
+
+    const scaleX = layer.transform?.scaleX ?? 1;
+    const scaleY = layer.transform?.scaleY ?? 1;
+    const sourceX = layer.coords.x - (layer.transform?.offsetX ?? 0);
+    const sourceY = layer.coords.y - (layer.transform?.offsetY ?? 0);
+    const maskX = layer.coords.x - originX + (mask.x - sourceX) * scaleX;
+    const maskY = layer.coords.y - originY + (mask.y - sourceY) * scaleY;
+    const maskW = mask.w * scaleX;
+    const maskH = mask.h * scaleY;
+
+    // Pixels outside the mask bounds take the mask's default color
+    if (mask.defaultColor >= 128) {
+      matte.ctx.fillStyle = '#ffffff';
+      matte.ctx.fillRect(0, 0, width, height);
+      matte.ctx.clearRect(maskX, maskY, maskW, maskH);
+    }
+    matte.ctx.drawImage(source, maskX, maskY, maskW, maskH);
+
+    buffer.ctx.save();
+    buffer.ctx.globalCompositeOperation = 'destination-in';
+    blit(buffer.ctx, matte);
+    buffer.ctx.restore();
+  };
+
+  // --- LAYER EFFECTS (Preview Approximation) ---
+  // Effect sizes are in source pixels; they follow the layer's smallest scale axis (same as the exporter).
+  const getEffectScale = (layer: TransformedLayer) =>
+    Math.min(Math.abs(layer.transform?.scaleX ?? 1), Math.abs(layer.transform?.scaleY ?? 1));
+
+  const hasEffects = (layer: TransformedLayer) => !!layer.effects && (!!layer.effects.dropShadow || !!layer.effects.stroke);
+
+  // Morphological dilation approximated by stamping the buffer around a ring (<= 1px arc spacing, capped)
+  const dilate = (source: CompositeBuffer, radius: number): CompositeBuffer | null => {
+    const result = allocate();
+    if (!result) return null;
+    blit(result.ctx, source);
+    const steps = Math.min(64, Math.max(8, Math.ceil(2 * Math.PI * radius)));
+    for (let i = 0; i < steps; i++) {
+      const angle = (i / steps) * Math.PI * 2;
+      result.ctx.drawImage(source.canvas, Math.cos(angle) * radius, Math.sin(angle) * radius);
+    }
+    return result;
+  };
+
+  // Stroke band: `outer` px outside the silhouette plus `inner` px inside it
+  const buildStrokeBand = (buffer: CompositeBuffer, inner: number, outer: number): CompositeBuffer | null => {
+    const band = allocate();
+    if (!band) return null;
+    if (outer > 0) {
+      const grown = dilate(buffer, outer);
+      if (grown) {
+        grown.ctx.globalCompositeOperation = 'destination-out';
+        blit(grown.ctx, buffer);
+        blit(band.ctx, grown);
+      }
+    }
+    if (inner > 0) {
+      // Inside band = silhouette ∩ dilate(inverse silhouette)
+      const inverse = allocate();
+      if (inverse) {
+        inverse.ctx.fillStyle = '#000000';
+        inverse.ctx.fillRect(0, 0, width, height);
+        inverse.ctx.globalCompositeOperation = 'destination-out';
+        blit(inverse.ctx, buffer);
+        const grown = dilate(inverse, inner);
+        if (grown) {
+          grown.ctx.globalCompositeOperation = 'destination-in';
+          blit(grown.ctx, buffer);
+          blit(band.ctx, grown);
+        }
+      }
+    }
+    return band;
+  };
+
+  const applyStroke = (buffer: CompositeBuffer, layer: TransformedLayer) => {
+    const stroke = layer.effects?.stroke;
+    if (!stroke) return;
+    const size = stroke.size * getEffectScale(layer);
+    if (size < 0.5) return;
+
+    const inner = stroke.position === 'inside' ? size : stroke.position === 'center' ? size / 2 : 0;
+    const band = buildStrokeBand(buffer, inner, size - inner);
+    if (!band) return;
+
+    const { r, g, b } = stroke.color;
+    band.ctx.globalCompositeOperation = 'source-in';
+    band.ctx.fillStyle = `rgb(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)})`;
+    band.ctx.fillRect(0, 0, width, height);
+
+    buffer.ctx.save();
+    buffer.ctx.globalAlpha = Math.max(0, Math.min(1, stroke.opacity));
+    blit(buffer.ctx, band);
+    buffer.ctx.restore();
+  };
+
+  // Drop shadow via the canvas shadow pipeline; Photoshop's angle is the light direction
+  const applyDropShadow = (target: Canvas2D, layer: TransformedLayer) => {
+    const shadow = layer.effects?.dropShadow;
+    if (!shadow) return;
+    const k = getEffectScale(layer);
+    const radians = (shadow.angle * Math.PI) / 180;
+    const { r, g, b } = shadow.color;
+    target.shadowColor = `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(b)}, ${Math.max(0, Math.min(1, shadow.opacity))})`;
+    target.shadowBlur = shadow.size * k;
+    target.shadowOffsetX = -Math.cos(radians) * shadow.distance * k;
+    target.shadowOffsetY = Math.sin(radians) * shadow.distance * k;
+  };
+
+  // Renders a layer (with its mask and stroke) into its own buffer, ignoring its own opacity and blend mode
+  const renderIsolated = async (layer: TransformedLayer, depth: number): Promise<CompositeBuffer | null> => {
+    const buffer = allocate();
+    if (!buffer) return null;
+    if (layer.type === 'group' && layer.children) {
+      await drawLayers(buffer.ctx, layer.children, depth + 1);
+    } else {
+      paintLeaf(buffer.ctx, layer);
+    }
+    if (hasMask(layer)) applyMask(buffer, layer);
+    applyStroke(buffer, layer);
+    return buffer;
+  };
+
+  const drawLayers = async (target: Canvas2D, layers: TransformedLayer[], depth: number): Promise<void> => {
+    // Iterate Forward (0 to Length-1) to implement Bottom-to-Top Painter's Algorithm.
+    for (let i = 0; i < layers.length; i++) {
+      const layer = layers[i];
+
+      // Clipping stack: consecutive clipped layers directly above this base
+      const clipped: TransformedLayer[] = [];
+      while (i + 1 < layers.length && layers[i + 1].clipping) clipped.push(layers[++i]);
+
+      if (sources.checkpoint && !(await sources.checkpoint())) throw new RenderAborted();
+
+      const opacity = getOpacity(layer);
+      if (debug) console.log(`[LAYER] Depth:${depth} | Name: "${layer.name}" | Type: ${layer.type} | Opacity: ${opacity.toFixed(2)} | Blend: ${layer.blendMode || 'normal'} | Visible: ${layer.isVisible}`);
+
+      // Visibility Check (a hidden or fully transparent base also hides everything clipped to it)
+      if (!layer.isVisible || opacity === 0) continue;
+
+      const visibleClipped = clipped.filter(c => c.isVisible);
+      const isGroup = layer.type === 'group' && !!layer.children;
+      // Groups fade / blend as a single flattened image unless they are pass-through at full opacity
+      const needsGroupBuffer = isGroup && (opacity < 1 || !isPassThrough(layer));
+      const isolate = visibleClipped.length > 0 || hasMask(layer) || hasEffects(layer) || needsGroupBuffer;
+
+      // --- RECURSIVE GROUP HANDLING (Pass-Through) ---
+      if (!isolate && isGroup) {
+        target.save();
+        await drawLayers(target, layer.children, depth + 1);
+        target.restore();
+        continue;
+      }
+
+      // --- DIRECT LEAF DRAW ---
+      if (!isolate) {
+        // WRAP EVERY DRAW CALL IN SAVE/RESTORE FOR SANITATION
+        target.save();
+        target.globalCompositeOperation = toCompositeOperation(layer.blendMode);
+        target.globalAlpha = opacity;
+        paintLeaf(target, layer);
+        target.restore();
+        continue;
+      }
+
+      // --- ISOLATED DRAW (Mask / Clipping Stack / Effects / Group Buffer) ---
+      const base = await renderIsolated(layer, depth);
+      if (!base) {
+        if (debug) console.warn(`[COMPOSITOR] No buffer available, skipping isolation for layer: ${layer.name}`);
+        // Without buffers, plain groups and effect-only leaves still draw directly (group fades / effects are lost)
+        if (visibleClipped.length === 0 && !hasMask(layer)) {
+          target.save();
+          if (isGroup) {
+            await drawLayers(target, layer.children!, depth + 1);
+          } else {
+            target.globalCompositeOperation = toCompositeOperation(layer.blendMode);
+            target.globalAlpha = opacity;
+            paintLeaf(target, layer);
+          }
+          target.restore();
+        }
+        continue;
+      }
+
+      for (const child of visibleClipped) {
+        const content = await renderIsolated(child, depth);
+        if (!content) continue;
+        // Clipped content only survives where the base has pixels
+        content.ctx.save();
+        content.ctx.globalCompositeOperation = 'destination-in';
+        blit(content.ctx, base);
+        content.ctx.restore();
+
+        // Normal clipped layers keep the base alpha intact; other modes blend against the base pixels
+        const operation = toCompositeOperation(child.blendMode);
+        base.ctx.save();
+        base.ctx.globalCompositeOperation = operation === 'source-over' ? 'source-atop' : operation;
+        base.ctx.globalAlpha = getOpacity(child);
+        blit(base.ctx, content);
+        base.ctx.restore();
+      }
+
+      target.save();
+      target.globalCompositeOperation = toCompositeOperation(layer.blendMode);
+      target.globalAlpha = opacity;
+      applyDropShadow(target, layer);
+      blit(target, base);
+      target.restore();
+    }
+  };
+
+  try {
+    await drawLayers(ctx, job.layers, 0);
+    return true;
+  } catch (err) {
+    if (err instanceof RenderAborted) return false;
+    throw err;
+  }
+};
+
+/**
+ * Collects the path IDs of every visible pixel leaf in a layer tree
+ * (the set of bitmaps a render of this tree needs).
+ */
+export const collectPixelLayerIds = (layers: TransformedLayer[]): string[] => {
+  const ids: string[] = [];
+  const traverse = (nodes: TransformedLayer[]) => {
+    nodes.forEach(layer => {
+      if (!layer.isVisible) return;
+      if (layer.type === 'group') {
+        if (layer.children) traverse(layer.children);
+      } else if (layer.type !== 'generative') {
+        ids.push(layer.id);
+      }
+    });
+  };
+  traverse(layers);
+  return ids;
+};
+
+/**
+ * Collects the path IDs of every visible layer carrying a raster mask
+ * (the set of mask bitmaps a render of this tree needs).
+ */
+export const collectMaskedLayerIds = (layers: TransformedLayer[]): string[] => {
+  const ids: string[] = [];
+  const traverse = (nodes: TransformedLayer[]) => {
+    nodes.forEach(layer => {
+      if (!layer.isVisible) return;
+      if (layer.mask) ids.push(layer.id);
+      if (layer.children) traverse(layer.children);
+    });
+  };
+  traverse(layers);
+  return ids;
+};
@@ -0,0 +1,163 @@
+import { Psd } from 'ag-psd';
+import { TransformedPayload } from '../types';
+import { findLayerByPath, compositePayloadToCanvas, getLayerMaskAlpha } from './psdService';
+import { buildCompositeJob, collectPixelLayerIds, collectMaskedLayerIds } from './compositorCore';
+import type { CompositorRequest, CompositorResponse } from './compositor.worker';
+
+// Verbose per-layer logging: enable with localStorage.setItem('psd_compositor_debug', '1') or setCompositorDebug(true)
+const DEBUG_STORAGE_KEY = 'psd_compositor_debug';
+
+let debugEnabled = (() => {
+  try {
+    return localStorage.getItem(DEBUG_STORAGE_KEY) === '1';
+  } catch {
+    return false;
+  }
+})();
+
+export const setCompositorDebug = (enabled: boolean) => {
+  debugEnabled = enabled;
+  try {
+    if (enabled) localStorage.setItem(DEBUG_STORAGE_KEY, '1');
+    else localStorage.removeItem(DEBUG_STORAGE_KEY);
+  } catch {
+    // Storage unavailable (private mode); the in-memory flag still applies
+  }
+};
+
+export const isCompositorDebugEnabled = () => debugEnabled;
+
+interface PendingRender {
+  resolve: (url: string | null) => void;
+  reject: (err: Error) => void;
+  // Main-thread re-run if the worker dies before answering
+  fallback: () => Promise<string | null>;
+}
+
+// undefined = not yet attempted, null = unavailable (main-thread fallback)
+let worker: Worker | null | undefined;
+const pending = new Map<number, PendingRender>();
+let nextRequestId = 1;
+
+// Each PSD binary gets a stable cache prefix; bitmaps are keyed `${prefix}:${pathId}` on both sides
+const psdKeys = new WeakMap<Psd, string>();
+let nextPsdKey = 1;
+let activePrefix: string | null = null;
+const sentKeys = new Set<string>();
+// Bitmap uploads are serialized so a render message never overtakes the upload it depends on
+let uploadQueue: Promise<void> = Promise.resolve();
+
+const getPsdKey = (psd: Psd): string => {
+  let key = psdKeys.get(psd);
+  if (!key) {
+    key = `psd${nextPsdKey++}`;
+    psdKeys.set(psd, key);
+  }
+  return key;
+};
+
+const post = (message: CompositorRequest, transfer: Transferable[] = []) => worker?.postMessage(message, transfer);
+
+const disableWorker = (reason: unknown) => {
+  console.warn('[COMPOSITOR] Worker unavailable, falling back to main thread.', reason);
+  worker?.terminate();
+  worker = null;
+  sentKeys.clear();
+  activePrefix = null;
+  pending.forEach(entry => entry.fallback().then(entry.resolve, entry.reject));
+  pending.clear();
+};
+
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined' || typeof createImageBitmap === 'undefined') {
+    worker = null;
+    return worker;
+  }
+  try {
+    worker = new Worker(new URL('./compositor.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<CompositorResponse>) => {
+      const response = event.data;
+      const entry = pending.get(response.requestId);
+      if (!entry) return;
+      pending.delete(response.requestId);
+      if (response.type === 'result') entry.resolve(response.dataUrl);
+      else if (response.type === 'cancelled') entry.resolve(null);
+      else entry.reject(new Error(response.message));
+    };
+    worker.onerror = (event) => disableWorker(event.message || event);
+  } catch (err) {
+    worker = null;
+    console.warn('[COMPOSITOR] Worker creation failed, using main thread.', err);
+  }
+  return worker;
+};
+
+// Transfers the bitmaps of every pixel layer (and layer mask) the worker has not seen yet
+const uploadLayerBitmaps = async (payload: TransformedPayload, psd: Psd, prefix: string) => {
+  if (activePrefix !== prefix) {
+    // A new source binary was loaded: drop bitmaps of the previous one
+    post({ type: 'evict', keepPrefix: prefix });
+    Array.from(sentKeys).forEach(key => { if (!key.startsWith(`${prefix}:`)) sentKeys.delete(key); });
+    activePrefix = prefix;
+  }
+
+  const requests = [
+    ...collectPixelLayerIds(payload.layers).map(pathId => ({ key: `${prefix}:${pathId}`, resolve: () => findLayerByPath(psd, pathId)?.canvas })),
+    ...collectMaskedLayerIds(payload.layers).map(pathId => ({ key: `${prefix}:${pathId}#mask`, resolve: () => getLayerMaskAlpha(psd, pathId) }))
+  ];
+  const missing = requests.filter(request => !sentKeys.has(request.key));
+  if (missing.length === 0) return;
+
+  const entries = (await Promise.all(missing.map(async ({ key, resolve }) => {
+    const canvas = resolve();
+    if (!canvas) return null;
+    return { key, bitmap: await createImageBitmap(canvas) };
+  }))).filter((entry): entry is { key: string, bitmap: ImageBitmap } => !!entry);
+
+  entries.forEach(entry => sentKeys.add(entry.key));
+  post({ type: 'cache', entries }, entries.map(entry => entry.bitmap));
+};
+
+/**
+ * Composites a TransformedPayload off the main thread.
+ * Layer pixels are transferred once as ImageBitmaps (cached by path ID in the worker).
+ * Renders are superseded per channel by payload generation: a newer `payload.generationId`
+ * cancels any render of an older generation still in flight, and a request whose generation is
+ * older than the channel's latest resolves null without rendering. Payloads without a
+ * generationId (and re-renders of the same generation) supersede by arrival order.
+ * Falls back to the main-thread compositor where workers / OffscreenCanvas are unavailable.
+ *
+ * @param payload The transformed geometry and logic instructions.
+ * @param psd The original binary source providing pixel data.
+ * @param channel Stable render slot (e.g. preview node + instance index).
+ * @returns A PNG data URL, or null when the render was superseded.
+ */
+export const compositePayload = async (payload: TransformedPayload, psd: Psd, channel: string): Promise<string | null> => {
+  if (!payload || !psd) return null;
+
+  const fallback = () => compositePayloadToCanvas(payload, psd, debugEnabled);
+  if (!getWorker()) return fallback();
+
+  const prefix = getPsdKey(psd);
+  const requestId = nextRequestId++;
+  const upload = uploadQueue.then(() => uploadLayerBitmaps(payload, psd, prefix));
+  uploadQueue = upload.catch(() => undefined);
+  await upload;
+
+  // The worker may have failed while bitmaps were being prepared
+  if (!worker) return fallback();
+
+  return new Promise<string | null>((resolve, reject) => {
+    pending.set(requestId, { resolve, reject, fallback });
+    post({
+      type: 'render',
+      requestId,
+      channel,
+      generationId: payload.generationId,
+      cachePrefix: prefix,
+      previewUrl: payload.previewUrl,
+      job: buildCompositeJob(payload, debugEnabled)
+    });
+  });
+};
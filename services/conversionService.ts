@@ -0,0 +1,178 @@
+import type { Edge, Node } from 'reactflow';
+import type { Psd } from 'ag-psd';
+import { ProjectExport, PSDNodeData, ContainerDefinition, LayoutStrategy, MappingContext, RemapperConfig, SerializableLayer, TemplateMetadata, TransformedPayload } from '../types';
+import { extractTemplateMetadata, getCleanLayerTree, createContainerContext, collectOpticalMetrics } from './psdService';
+import { resolveDesignLayer } from '../hooks/usePsdResolver';
+import { matchContainers } from './autoWireService';
+import { remapContainer } from './remapService';
+import { assembleExportPsd, AssembledExport, ExportStructureOptions, DEFAULT_STRUCTURE_OPTIONS } from './exportStructureService';
+
+// Headless counterpart of the node graph: design PSD + target template -> layered target PSD, no React involved.
+
+// One remap unit of a recipe: a design container onto a target container (null = every target container, batch mode)
+export interface RecipePair {
+  sourceContainer: string;
+  targetContainerId: string | null;
+  aiStrategy?: LayoutStrategy; // Saved Analyst strategy when the pair was routed through a DesignAnalyst instance
+}
+
+export interface ConversionRecipe {
+  // null: pair containers automatically (see matchContainers)
+  pairs: RecipePair[] | null;
+  config: RemapperConfig | null;
+}
+
+export const AUTO_RECIPE: ConversionRecipe = { pairs: null, config: null };
+
+// Node ID the converted design is registered under (TransformedPayload.sourceNodeId)
+const SOURCE_ID = 'source';
+
+const findInputEdge = (edges: Edge[], nodeId: string, handle: string) =>
+  edges.find(e => e.target === nodeId && e.targetHandle === handle);
+
+/**
+ * Reads the remap wiring from a project saved by ProjectControls.
+ * Every Remapper instance becomes a pair: its source is traced back to a Resolver channel
+ * (`resolved-out-{container}`), its target to a TargetSplitter slot (`slot-out-{containerId}`).
+ * Pairs routed through a DesignAnalyst instance carry that instance's saved LayoutStrategy.
+ * Batch-mode Remappers pair their source with every target container.
+ * The first Remapper's config (strategy, optical alignment) applies to the whole conversion.
+ *
+ * @throws When the project holds no Remapper node.
+ */
+export const readRecipe = (project: ProjectExport): ConversionRecipe => {
+  const nodes = project.nodes as Node<PSDNodeData>[];
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const remappers = nodes.filter(n => n.type === 'remapper');
+  if (remappers.length === 0) throw new Error('Recipe has no Remapper node.');
+
+  // Walks upstream through Analyst pass-through handles, collecting the strategy on the way
+  const traceSource = (edge: Edge | undefined): { container: string, aiStrategy?: LayoutStrategy } | null => {
+    if (!edge?.sourceHandle) return null;
+    if (edge.sourceHandle.startsWith('resolved-out-')) return { container: edge.sourceHandle.replace('resolved-out-', '') };
+    const node = nodeById.get(edge.source);
+    if (node?.type === 'designAnalyst' && edge.sourceHandle.startsWith('source-out-')) {
+      const instId = edge.sourceHandle.replace('source-out-', '');
+      const upstream = traceSource(findInputEdge(project.edges, node.id, `source-in-${instId}`));
+      const aiStrategy = node.data.analystInstances?.[instId]?.layoutStrategy || undefined;
+      return upstream ? { ...upstream, aiStrategy: aiStrategy || upstream.aiStrategy } : null;
+    }
+    return null;
+  };
+
+  const traceTarget = (edge: Edge | undefined): string | null => {
+    if (!edge?.sourceHandle) return null;
+    if (edge.sourceHandle.startsWith('slot-out-')) return edge.sourceHandle.replace('slot-out-', '');
+    const node = nodeById.get(edge.source);
+    if (node?.type === 'designAnalyst' && edge.sourceHandle.startsWith('target-out-')) {
+      const instId = edge.sourceHandle.replace('target-out-', '');
+      return traceTarget(findInputEdge(project.edges, node.id, `target-in-${instId}`));
+    }
+    return null;
+  };
+
+  const pairs: RecipePair[] = [];
+  remappers.forEach(remapper => {
+    (remapper.data.instanceIds || ['inst_0']).forEach(instId => {
+      const source = traceSource(findInputEdge(project.edges, remapper.id, `source-in-${instId}`));
+      const targetId = traceTarget(findInputEdge(project.edges, remapper.id, `target-in-${instId}`));
+      if (source && targetId) pairs.push({ sourceContainer: source.container, targetContainerId: targetId, aiStrategy: source.aiStrategy });
+    });
+    if (remapper.data.remapperConfig?.batchMode) {
+      const source = traceSource(findInputEdge(project.edges, remapper.id, 'batch-source-in'));
+      if (source) pairs.push({ sourceContainer: source.container, targetContainerId: null, aiStrategy: source.aiStrategy });
+    }
+  });
+
+  return { pairs, config: remappers[0].data.remapperConfig || null };
+};
+
+export interface ConversionReport {
+  // Target container name -> source container name
+  mapped: { source: string, target: string }[];
+  // Recipe pairs or containers that could not be resolved against the given files
+  skipped: { source: string, target: string | null, reason: string }[];
+}
+
+export interface ConversionResult extends AssembledExport {
+  template: TemplateMetadata;
+  payloads: Map<string, TransformedPayload>;
+  report: ConversionReport;
+}
+
+/**
+ * Converts a design PSD onto a target template without the node graph:
+ * resolves each design container (Resolver rules), remaps it onto its target container (Remapper maths,
+ * including saved Analyst strategies) and assembles the layered target document (Export reconstruction).
+ * Generative layers are skipped: headless runs never call the image models.
+ *
+ * @param sourcePsd The design binary, parsed with layer image data.
+ * @param targetPsd The target template binary (image data not needed).
+ * @param recipe Container pairs and Remapper config (AUTO_RECIPE pairs containers automatically).
+ * @param options Export structure options.
+ * @throws When either file lacks a usable !!TEMPLATE group or nothing could be mapped.
+ */
+export const convertDesign = (
+  sourcePsd: Psd,
+  targetPsd: Psd,
+  recipe: ConversionRecipe = AUTO_RECIPE,
+  options: ExportStructureOptions = DEFAULT_STRUCTURE_OPTIONS
+): ConversionResult => {
+  const sourceTemplate = extractTemplateMetadata(sourcePsd);
+  const targetTemplate = extractTemplateMetadata(targetPsd);
+  if (sourceTemplate.containers.length === 0) throw new Error('Design PSD has no !!TEMPLATE containers.');
+  if (targetTemplate.containers.length === 0) throw new Error('Target PSD has no !!TEMPLATE containers.');
+
+  const designLayers = sourcePsd.children ? getCleanLayerTree(sourcePsd.children) : [];
+  const report: ConversionReport = { mapped: [], skipped: [] };
+
+  const pairs: { source: string, target: ContainerDefinition, aiStrategy?: LayoutStrategy }[] = [];
+  if (recipe.pairs) {
+    recipe.pairs.forEach(pair => {
+      const targets = pair.targetContainerId === null
+        ? targetTemplate.containers
+        : targetTemplate.containers.filter(c => c.id === pair.targetContainerId || c.name === pair.targetContainerId);
+      if (targets.length === 0) {
+        report.skipped.push({ source: pair.sourceContainer, target: pair.targetContainerId, reason: 'Target container not found in target PSD' });
+      }
+      targets.forEach(target => pairs.push({ source: pair.sourceContainer, target, aiStrategy: pair.aiStrategy }));
+    });
+  } else {
+    matchContainers(sourceTemplate.containers, targetTemplate.containers).matches
+      .forEach(({ source, target }) => pairs.push({ source: source.name, target }));
+  }
+
+  const payloads = new Map<string, TransformedPayload>();
+  pairs.forEach(({ source, target, aiStrategy }) => {
+    // One payload per target container, first pair wins (the Export node holds a single input per slot)
+    if (payloads.has(target.name)) return;
+
+    const container = createContainerContext(sourceTemplate, source);
+    const resolved = resolveDesignLayer(source, designLayers);
+    if (!container || !resolved.layer) {
+      report.skipped.push({ source, target: target.name, reason: container ? resolved.message : 'Source container not found in design PSD' });
+      return;
+    }
+
+    const context: MappingContext = { container, layers: resolved.layer.children || [], status: 'resolved', message: resolved.message, aiStrategy };
+    const { layoutMode, physicsRules } = aiStrategy || {};
+    const needsOptical = recipe.config?.optical || (layoutMode && layoutMode !== 'STANDARD') || physicsRules?.preventOverlap || physicsRules?.preventClipping;
+    const opticalMetrics = needsOptical ? collectOpticalMetrics(sourcePsd, context.layers as SerializableLayer[]) : undefined;
+
+    payloads.set(target.name, remapContainer(context, target, recipe.config, { sourceNodeId: SOURCE_ID, opticalMetrics }));
+    report.mapped.push({ source, target: target.name });
+  });
+
+  if (payloads.size === 0) throw new Error('No design container could be mapped onto the target template.');
+
+  const assembled = assembleExportPsd({
+    template: targetTemplate,
+    payloads,
+    getSourcePsd: nodeId => nodeId === SOURCE_ID ? sourcePsd : undefined,
+    getSourceTemplate: nodeId => nodeId === SOURCE_ID ? sourceTemplate : undefined,
+    assets: new Map(),
+    options
+  });
+
+  return { ...assembled, template: targetTemplate, payloads, report };
+};
@@ -0,0 +1,123 @@
+import { TransformedLayer, TransformedPayload, TriangulationAudit } from '../types';
+import { RasterArtifact } from './rasterExportService';
+import { createZipArchive, ZipEntry } from './zipService';
+
+export const MANIFEST_VERSION = 1;
+
+// Per-container provenance: where the content came from and how it was fitted
+export interface ManifestContainerEntry {
+  sourceContainer: string;
+  targetContainer: string;
+  dimensions: { w: number, h: number };
+  scaleFactor: number;
+  confidence: TriangulationAudit['confidence_verdict'] | null;
+  evidenceCount: number | null;
+  generativeLayerIds: string[];
+}
+
+export interface ManifestFileEntry {
+  path: string;
+  kind: 'psd' | 'raster';
+  mimeType: string;
+  bytes: number;
+  dimensions: { w: number, h: number };
+  // Containers rendered into this file (one for per-container rasters, all for the PSD / canvas raster)
+  containers: ManifestContainerEntry[];
+}
+
+export interface ExportManifest {
+  version: number;
+  generatedAt: string;
+  canvas: { w: number, h: number };
+  files: ManifestFileEntry[];
+}
+
+export interface BundleInput {
+  canvas: { width: number, height: number };
+  // Filled containers keyed by target container name
+  payloads: Map<string, TransformedPayload>;
+  psd?: { filename: string, data: Uint8Array };
+  rasters: RasterArtifact[];
+}
+
+const collectGenerativeLayerIds = (layers: TransformedLayer[]): string[] =>
+  layers.flatMap(layer => [
+    ...(layer.type === 'generative' ? [layer.id] : []),
+    ...(layer.children ? collectGenerativeLayerIds(layer.children) : [])
+  ]);
+
+const describeContainer = (containerName: string, payload: TransformedPayload): ManifestContainerEntry => ({
+  sourceContainer: payload.sourceContainer,
+  targetContainer: containerName,
+  dimensions: {
+    w: Math.round(payload.targetBounds ? payload.targetBounds.w : payload.metrics.target.w),
+    h: Math.round(payload.targetBounds ? payload.targetBounds.h : payload.metrics.target.h)
+  },
+  scaleFactor: payload.scaleFactor,
+  confidence: payload.triangulation?.confidence_verdict ?? null,
+  evidenceCount: payload.triangulation?.evidence_count ?? null,
+  generativeLayerIds: collectGenerativeLayerIds(payload.layers)
+});
+
+/**
+ * Builds the machine-readable record of an export: every file, the containers it holds,
+ * their dimensions, scale factor, triangulation confidence and generative layer IDs.
+ */
+export const buildExportManifest = (input: BundleInput): ExportManifest => {
+  const allContainers = Array.from(input.payloads.entries()).map(([name, payload]) => describeContainer(name, payload));
+  const canvas = { w: input.canvas.width, h: input.canvas.height };
+  const files: ManifestFileEntry[] = [];
+
+  if (input.psd) {
+    files.push({
+      path: input.psd.filename,
+      kind: 'psd',
+      mimeType: 'image/vnd.adobe.photoshop',
+      bytes: input.psd.data.length,
+      dimensions: canvas,
+      containers: allContainers
+    });
+  }
+
+  input.rasters.forEach(artifact => {
+    const payload = artifact.containerName ? input.payloads.get(artifact.containerName) : undefined;
+    files.push({
+      path: artifact.filename,
+      kind: 'raster',
+      mimeType: artifact.mimeType,
+      bytes: artifact.blob.size,
+      dimensions: { w: artifact.width, h: artifact.height },
+      containers: artifact.scope === 'canvas'
+        ? allContainers
+        : payload && artifact.containerName ? [describeContainer(artifact.containerName, payload)] : []
+    });
+  });
+
+  return { version: MANIFEST_VERSION, generatedAt: new Date().toISOString(), canvas, files };
+};
+
+/**
+ * Packs every export artifact plus manifest.json into a single ZIP archive.
+ *
+ * @returns The archive Blob and the manifest written into it.
+ */
+export const buildExportBundle = async (input: BundleInput): Promise<{ archive: Blob, manifest: ExportManifest }> => {
+  const manifest = buildExportManifest(input);
+  const modified = new Date(manifest.generatedAt);
+
+  const entries: ZipEntry[] = [];
+  if (input.psd) entries.push({ path: input.psd.filename, data: input.psd.data, modified });
+  for (const artifact of input.rasters) {
+    entries.push({ path: artifact.filename, data: new Uint8Array(await artifact.blob.arrayBuffer()), modified });
+  }
+  entries.push({ path: 'manifest.json', data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)), modified });
+
+  // Duplicate paths would silently shadow each other when the archive is extracted
+  const paths = new Set<string>();
+  entries.forEach(({ path }) => {
+    if (paths.has(path)) throw new Error(`Duplicate file '${path}' in export bundle.`);
+    paths.add(path);
+  });
+
+  return { archive: createZipArchive(entries), manifest };
+};
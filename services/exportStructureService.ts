@@ -0,0 +1,349 @@
+import type { Layer, Psd } from 'ag-psd';
+import { ContainerDefinition, TemplateMetadata, TransformedLayer, TransformedPayload, SerializableLayer } from '../types';
+import { getCleanLayerTree, createCanvas, findLayerByPath, toPsdOpacity } from './psdService';
+import { retargetEditableData, hasEditableData } from './exportTransformService';
+
+export interface ExportStructureOptions {
+  includeTemplate: boolean; // Hidden !!TEMPLATE guide group, so the export reopens as a source template
+  includePlaceholders: boolean; // Empty groups for unfilled containers
+  includeGlobalLayers: boolean; // Top-level design layers outside any container (frames, logos)
+}
+
+export const DEFAULT_STRUCTURE_OPTIONS: ExportStructureOptions = {
+  includeTemplate: true,
+  includePlaceholders: true,
+  includeGlobalLayers: true
+};
+
+// Guide fill of synthesized template layers (the target binary is parsed without pixel data)
+const GUIDE_FILL = 'rgba(99, 102, 241, 0.25)';
+
+const createGuideCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = createCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.fillStyle = GUIDE_FILL;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  return canvas;
+};
+
+/**
+ * Rebuilds the hidden !!TEMPLATE guide group of the target template.
+ * Each container becomes a filled rectangle at its bounds, so extractTemplateMetadata
+ * reads the same containers back from the exported file.
+ */
+export const buildTemplateGuideGroup = (template: TemplateMetadata): Layer => ({
+  name: '!!TEMPLATE',
+  hidden: true,
+  opened: false,
+  children: template.containers.map(container => ({
+    name: container.originalName,
+    top: container.bounds.y,
+    left: container.bounds.x,
+    bottom: container.bounds.y + container.bounds.h,
+    right: container.bounds.x + container.bounds.w,
+    canvas: createGuideCanvas(container.bounds.w, container.bounds.h)
+  }))
+});
+
+/**
+ * Empty placeholder group for a container no payload was wired to.
+ */
+export const buildPlaceholderGroup = (container: ContainerDefinition): Layer => ({
+  name: container.name,
+  children: [],
+  opened: false,
+  top: container.bounds.y,
+  left: container.bounds.x,
+  bottom: container.bounds.y + container.bounds.h,
+  right: container.bounds.x + container.bounds.w
+});
+
+export interface GlobalLayerPlan {
+  below: TransformedLayer[]; // Stacked under the container groups
+  above: TransformedLayer[]; // Stacked over the container groups
+}
+
+/**
+ * Collects the top-level design layers that are not bound to a container and places them on the target canvas.
+ * Positions follow the canvas-level scale per axis (a layer's center keeps its relative position);
+ * sizes use the uniform min-axis scale so artwork is never distorted.
+ * Layers stacked below the first container group in the source stay below the containers in the export.
+ *
+ * @param sourcePsd The design binary.
+ * @param sourceTemplate The design's template (its container names identify container-bound groups).
+ * @param targetCanvas Target document dimensions.
+ */
+export const planGlobalLayers = (
+  sourcePsd: Psd,
+  sourceTemplate: TemplateMetadata,
+  targetCanvas: { width: number, height: number }
+): GlobalLayerPlan => {
+  const plan: GlobalLayerPlan = { below: [], above: [] };
+  if (!sourcePsd.children) return plan;
+
+  const containerNames = new Set(sourceTemplate.containers.map(c => c.name));
+  const sx = targetCanvas.width / (sourceTemplate.canvas.width || 1);
+  const sy = targetCanvas.height / (sourceTemplate.canvas.height || 1);
+  const k = Math.min(sx, sy);
+
+  const tree = getCleanLayerTree(sourcePsd.children);
+  const firstContainerIndex = tree.findIndex(layer => containerNames.has(layer.name));
+
+  tree.forEach((layer, index) => {
+    if (containerNames.has(layer.name)) return;
+
+    // Anchor: the top-level layer's center moves with the canvas, its subtree scales uniformly around it
+    const anchorX = layer.coords.x + layer.coords.w / 2;
+    const anchorY = layer.coords.y + layer.coords.h / 2;
+    const mapX = (x: number) => anchorX * sx + (x - anchorX) * k;
+    const mapY = (y: number) => anchorY * sy + (y - anchorY) * k;
+
+    const place = (node: SerializableLayer): TransformedLayer => {
+      const x = mapX(node.coords.x);
+      const y = mapY(node.coords.y);
+      return {
+        ...node,
+        coords: { x, y, w: node.coords.w * k, h: node.coords.h * k },
+        transform: { scaleX: k, scaleY: k, offsetX: x - node.coords.x, offsetY: y - node.coords.y },
+        children: node.children ? node.children.map(place) : undefined
+      };
+    };
+
+    const placed = place(layer);
+    if (firstContainerIndex !== -1 && index < firstContainerIndex) plan.below.push(placed);
+    else plan.above.push(placed);
+  });
+
+  return plan;
+};
+
+// --- PSD Assembly ---
+
+// Re-rasterizes a standard layer canvas into its transformed AABB (rotation / scale baking)
+const applyTransformToCanvas = (
+  sourceCanvas: HTMLCanvasElement | HTMLImageElement,
+  width: number,
+  height: number,
+  transform: { scaleX: number, scaleY: number, rotation?: number }
+): HTMLCanvasElement => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  // 'transform.scaleX' is already folded into width/height; the source holds the original raw pixels,
+  // so it is drawn centered at the destination size and rotated about the new center.
+  ctx.save();
+  ctx.translate(width / 2, height / 2);
+  if (transform.rotation) {
+    ctx.rotate((transform.rotation * Math.PI) / 180);
+  }
+  ctx.drawImage(sourceCanvas, -width / 2, -height / 2, width, height);
+  ctx.restore();
+  return canvas;
+};
+
+export interface ExportAssemblyInput {
+  template: TemplateMetadata;
+  // Filled containers keyed by target container name
+  payloads: Map<string, TransformedPayload>;
+  // Raw design binary / template owned by a payload's sourceNodeId
+  getSourcePsd: (nodeId: string) => Psd | undefined;
+  getSourceTemplate: (nodeId: string) => TemplateMetadata | undefined;
+  // Final pixels of confirmed generative layers, keyed by layer ID
+  assets: Map<string, HTMLCanvasElement>;
+  options: ExportStructureOptions;
+}
+
+export interface AssembledExport {
+  psd: Psd;
+  editableCount: number; // Layers whose live text / smart object / vector data was preserved
+  hasLiveText: boolean; // Text must be re-laid out by Photoshop on open
+  // Global layers placed in the document and the binary providing their pixels (for the merged composite)
+  globalLayers: (GlobalLayerPlan & { psd: Psd }) | null;
+}
+
+/**
+ * Plans the global design layers (frames, logos, backgrounds) of an export. They come from the primary design:
+ * the source of the first filled container in template order.
+ * The raster exports use the same plan, so every merged composite matches the assembled PSD.
+ *
+ * @returns The placed layers and their binary, or null when disabled or the primary design is unavailable.
+ */
+export const resolveGlobalLayers = (
+  input: Pick<ExportAssemblyInput, 'template' | 'payloads' | 'getSourcePsd' | 'getSourceTemplate' | 'options'>
+): AssembledExport['globalLayers'] => {
+  if (!input.options.includeGlobalLayers) return null;
+  const primary = input.template.containers.map(container => input.payloads.get(container.name)).find(payload => !!payload);
+  if (!primary) return null;
+
+  const psd = input.getSourcePsd(primary.sourceNodeId);
+  const sourceTemplate = input.getSourceTemplate(primary.sourceNodeId);
+  if (!psd || !sourceTemplate) return null;
+  return { ...planGlobalLayers(psd, sourceTemplate, input.template.canvas), psd };
+};
+
+/**
+ * Builds the layered target document from the filled containers.
+ * Standard layers are cloned from their source binary (rotation / scale baked into the pixels,
+ * editable data retargeted), generative layers take their asset's pixels, either swapped into
+ * the matching source layer or added as new layers. Structure options add the template guides,
+ * empty slot placeholders and the design's global layers.
+ * The merged composite is left to the caller (composeCanvas with the returned globalLayers).
+ */
+export const assembleExportPsd = (input: ExportAssemblyInput): AssembledExport => {
+  const { template, payloads, assets, options } = input;
+
+  // Live content bookkeeping: text must be re-laid out by Photoshop, smart objects need their linked files
+  let editableCount = 0;
+  let hasLiveText = false;
+  const usedSources = new Set<Psd>();
+
+  const reconstructHierarchy = (transformedLayers: TransformedLayer[], sourcePsd: Psd | undefined): Layer[] => {
+    const resultLayers: Layer[] = [];
+
+    for (const metaLayer of transformedLayers) {
+      let newLayer: Layer | undefined;
+
+      // BRANCH 1: Generative Layer (Synthetic or Surgical Swap)
+      if (metaLayer.type === 'generative') {
+        const asset = assets.get(metaLayer.id);
+
+        // SURGICAL LOGIC: a "generative" ID matching a real source layer is a swap that preserves its metadata
+        const originalLayer = sourcePsd ? findLayerByPath(sourcePsd, metaLayer.id) : null;
+
+        if (asset) {
+          if (originalLayer) {
+            // CASE A: SURGICAL SWAP (Re-use container, inject pixels)
+            // CLEAN ROOM: children, binary data and live text / smart object content are replaced by the asset
+            const { children, canvas, imageData, text, placedLayer, ...cleanMetadata } = originalLayer as any;
+
+            newLayer = {
+              ...cleanMetadata, // Inherit Blend Modes, Layer Masks (if any), etc.
+              ...retargetEditableData(cleanMetadata, metaLayer),
+              name: metaLayer.name,
+              top: metaLayer.coords.y,
+              left: metaLayer.coords.x,
+              bottom: metaLayer.coords.y + metaLayer.coords.h,
+              right: metaLayer.coords.x + metaLayer.coords.w,
+              hidden: !metaLayer.isVisible,
+              opacity: toPsdOpacity(metaLayer.opacity),
+              canvas: asset,
+              // Swapped groups are flattened into the asset
+              children: undefined,
+              opened: false
+            };
+          } else {
+            // CASE B: ADDITIVE SYNTHESIS (New Node)
+            newLayer = {
+              name: metaLayer.name,
+              top: metaLayer.coords.y,
+              left: metaLayer.coords.x,
+              bottom: metaLayer.coords.y + metaLayer.coords.h,
+              right: metaLayer.coords.x + metaLayer.coords.w,
+              hidden: !metaLayer.isVisible,
+              opacity: toPsdOpacity(metaLayer.opacity),
+              canvas: asset
+            };
+          }
+        }
+      }
+      // BRANCH 2: Standard Layer (Clone + Raster Transform)
+      else if (sourcePsd) {
+        const originalLayer = findLayerByPath(sourcePsd, metaLayer.id);
+
+        if (originalLayer) {
+          const hasRotation = !!metaLayer.transform.rotation && metaLayer.transform.rotation !== 0;
+
+          let bakedCanvas = originalLayer.canvas;
+          if (originalLayer.canvas && (hasRotation || metaLayer.transform.scaleX !== 1)) {
+            bakedCanvas = applyTransformToCanvas(
+              originalLayer.canvas as HTMLCanvasElement,
+              metaLayer.coords.w,
+              metaLayer.coords.h,
+              metaLayer.transform
+            );
+          }
+
+          // NON-DESTRUCTIVE: live text, smart objects and vector data follow the transform;
+          // the baked canvas only serves as the rendered preview until Photoshop redraws them.
+          if (hasEditableData(originalLayer)) {
+            editableCount++;
+            usedSources.add(sourcePsd);
+          }
+          if (originalLayer.text) hasLiveText = true;
+
+          newLayer = {
+            ...originalLayer, // Copy metadata
+            ...retargetEditableData(originalLayer, metaLayer),
+            top: metaLayer.coords.y,
+            left: metaLayer.coords.x,
+            bottom: metaLayer.coords.y + metaLayer.coords.h,
+            right: metaLayer.coords.x + metaLayer.coords.w,
+            hidden: !metaLayer.isVisible,
+            opacity: toPsdOpacity(metaLayer.opacity),
+            children: undefined,
+            canvas: bakedCanvas
+          };
+
+          if (metaLayer.type === 'group' && metaLayer.children) {
+            newLayer.children = reconstructHierarchy(metaLayer.children, sourcePsd);
+            newLayer.opened = true;
+          }
+        }
+      }
+
+      if (newLayer) {
+        resultLayers.push(newLayer);
+      }
+    }
+    return resultLayers;
+  };
+
+  const finalChildren: Layer[] = [];
+
+  for (const container of template.containers) {
+    const payload = payloads.get(container.name);
+
+    if (payload) {
+      // Named like the design groups (no '!!' prefix) so the export maps back onto its own template
+      finalChildren.push({
+        name: container.name,
+        children: reconstructHierarchy(payload.layers, input.getSourcePsd(payload.sourceNodeId)),
+        opened: true,
+        top: container.bounds.y,
+        left: container.bounds.x,
+        bottom: container.bounds.y + container.bounds.h,
+        right: container.bounds.x + container.bounds.w,
+      });
+    } else if (options.includePlaceholders) {
+      finalChildren.push(buildPlaceholderGroup(container));
+    }
+  }
+
+  const globalLayers = resolveGlobalLayers(input);
+  if (globalLayers) {
+    finalChildren.unshift(...reconstructHierarchy(globalLayers.below, globalLayers.psd));
+    finalChildren.push(...reconstructHierarchy(globalLayers.above, globalLayers.psd));
+  }
+
+  // Hidden template guides at the bottom of the stack: the export reopens as a valid source template
+  if (options.includeTemplate) {
+    finalChildren.unshift(buildTemplateGuideGroup(template));
+  }
+
+  const psd: Psd = {
+    width: template.canvas.width,
+    height: template.canvas.height,
+    children: finalChildren
+  };
+
+  // Smart objects reference their embedded content by id in the document-level linked files
+  const linkedFiles = Array.from(usedSources).flatMap(source => source.linkedFiles || []);
+  if (linkedFiles.length > 0) {
+    psd.linkedFiles = linkedFiles.filter((file, index) => linkedFiles.findIndex(f => f.id === file.id) === index);
+  }
+
+  return { psd, editableCount, hasLiveText, globalLayers };
+};
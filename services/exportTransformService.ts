@@ -0,0 +1,308 @@
+import type { Layer, LayerTextData, TextStyle, ParagraphStyle, PlacedLayer, LayerVectorMask, LayerMaskData, LayerEffectsInfo, UnitsBounds, UnitsValue, KeyDescriptorItem } from 'ag-psd';
+import { TransformedLayer } from '../types';
+import { createCanvas } from './psdService';
+
+type PointMapper = (x: number, y: number) => [number, number];
+
+const scaleOptional = (value: number | undefined, k: number): number | undefined =>
+  value === undefined ? undefined : value * k;
+
+const scaleUnits = (value: UnitsValue | undefined, k: number): UnitsValue | undefined =>
+  value ? { ...value, value: value.value * k } : undefined;
+
+// --- PLACEMENT ---
+
+/**
+ * Builds the source-document -> export-document point mapping of a remapped layer.
+ * Mirrors the compositor / raster bake: scale relative to the original top-left,
+ * then rotate about the center of the remapped bounds.
+ */
+export const createPointMapper = (layer: TransformedLayer): PointMapper => {
+  const { scaleX, scaleY, offsetX, offsetY, rotation } = layer.transform;
+  const originalX = layer.coords.x - offsetX;
+  const originalY = layer.coords.y - offsetY;
+  const halfW = layer.coords.w / 2;
+  const halfH = layer.coords.h / 2;
+  const centerX = layer.coords.x + halfW;
+  const centerY = layer.coords.y + halfH;
+  const radians = ((rotation || 0) * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  return (x, y) => {
+    const u = (x - originalX) * scaleX - halfW;
+    const v = (y - originalY) * scaleY - halfH;
+    return [centerX + u * cos - v * sin, centerY + u * sin + v * cos];
+  };
+};
+
+// Maps a flat [x0, y0, x1, y1, ...] coordinate list
+const mapPointList = (points: number[], map: PointMapper): number[] => {
+  const result: number[] = [];
+  for (let i = 0; i + 1 < points.length; i += 2) {
+    result.push(...map(points[i], points[i + 1]));
+  }
+  return result;
+};
+
+/**
+ * Effective scale for pixel-sized effect parameters (stroke width, shadow distance...).
+ * The smallest axis wins so effects never outgrow a squeezed layer; the preview compositor uses the same rule.
+ */
+export const getEffectScale = (layer: TransformedLayer): number =>
+  Math.min(Math.abs(layer.transform.scaleX), Math.abs(layer.transform.scaleY));
+
+const isIdentity = (layer: TransformedLayer): boolean => {
+  const { scaleX, scaleY, offsetX, offsetY, rotation } = layer.transform;
+  return scaleX === 1 && scaleY === 1 && offsetX === 0 && offsetY === 0 && !rotation;
+};
+
+// --- TEXT ---
+
+const scaleTextStyle = (style: TextStyle, k: number, stretch: number): TextStyle => ({
+  ...style,
+  fontSize: scaleOptional(style.fontSize, k),
+  leading: scaleOptional(style.leading, k),
+  baselineShift: scaleOptional(style.baselineShift, k),
+  outlineWidth: scaleOptional(style.outlineWidth, k),
+  horizontalScale: stretch !== 1 ? (style.horizontalScale ?? 1) * stretch : style.horizontalScale
+});
+
+const scaleParagraphStyle = (style: ParagraphStyle, kx: number, ky: number): ParagraphStyle => ({
+  ...style,
+  firstLineIndent: scaleOptional(style.firstLineIndent, kx),
+  startIndent: scaleOptional(style.startIndent, kx),
+  endIndent: scaleOptional(style.endIndent, kx),
+  spaceBefore: scaleOptional(style.spaceBefore, ky),
+  spaceAfter: scaleOptional(style.spaceAfter, ky)
+});
+
+const scaleUnitsBounds = (bounds: UnitsBounds | undefined, kx: number, ky: number): UnitsBounds | undefined =>
+  bounds ? {
+    left: scaleUnits(bounds.left, kx)!,
+    right: scaleUnits(bounds.right, kx)!,
+    top: scaleUnits(bounds.top, ky)!,
+    bottom: scaleUnits(bounds.bottom, ky)!
+  } : undefined;
+
+/**
+ * Re-targets live text: font metrics scale with the layer's vertical scale
+ * (a non-uniform remainder becomes horizontal glyph scaling), the text matrix picks up
+ * the layer rotation and its origin moves with the layer. Box text bounds scale per axis.
+ */
+const transformTextData = (text: LayerTextData, layer: TransformedLayer, map: PointMapper): LayerTextData => {
+  const { scaleX, scaleY, rotation } = layer.transform;
+  const k = scaleY;
+  const stretch = scaleY !== 0 ? scaleX / scaleY : 1;
+
+  let transform = text.transform;
+  if (transform && transform.length >= 6) {
+    const [xx, xy, yx, yy, tx, ty] = transform;
+    const radians = ((rotation || 0) * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    const [nextX, nextY] = map(tx, ty);
+    transform = [
+      cos * xx - sin * xy,
+      sin * xx + cos * xy,
+      cos * yx - sin * yy,
+      sin * yx + cos * yy,
+      nextX,
+      nextY
+    ];
+  }
+
+  return {
+    ...text,
+    transform,
+    style: text.style ? scaleTextStyle(text.style, k, stretch) : undefined,
+    styleRuns: text.styleRuns?.map(run => ({ ...run, style: scaleTextStyle(run.style, k, stretch) })),
+    paragraphStyle: text.paragraphStyle ? scaleParagraphStyle(text.paragraphStyle, scaleX, scaleY) : undefined,
+    paragraphStyleRuns: text.paragraphStyleRuns?.map(run => ({ ...run, style: scaleParagraphStyle(run.style, scaleX, scaleY) })),
+    boxBounds: text.boxBounds?.map((value, i) => value * (i % 2 === 0 ? scaleX : scaleY)),
+    bounds: scaleUnitsBounds(text.bounds, scaleX, scaleY),
+    boundingBox: scaleUnitsBounds(text.boundingBox, scaleX, scaleY)
+  };
+};
+
+// --- SMART OBJECTS ---
+
+// The placed transform holds the four corners of the embedded content in document space
+const transformPlacedLayer = (placed: PlacedLayer, map: PointMapper): PlacedLayer => ({
+  ...placed,
+  transform: mapPointList(placed.transform, map),
+  nonAffineTransform: placed.nonAffineTransform ? mapPointList(placed.nonAffineTransform, map) : undefined
+});
+
+// --- VECTOR DATA ---
+
+const transformVectorMask = (mask: LayerVectorMask, map: PointMapper): LayerVectorMask => ({
+  ...mask,
+  paths: mask.paths.map(path => ({
+    ...path,
+    knots: path.knots.map(knot => ({ ...knot, points: mapPointList(knot.points, map) }))
+  }))
+});
+
+// Live shape parameters (rectangles, rounded rectangles) carried next to the vector mask
+const transformKeyDescriptor = (item: KeyDescriptorItem, layer: TransformedLayer, map: PointMapper): KeyDescriptorItem => {
+  const { scaleX, scaleY } = layer.transform;
+  const corners = item.keyOriginBoxCorners?.map(corner => {
+    const [x, y] = map(corner.x, corner.y);
+    return { x, y };
+  });
+
+  let boundingBox = item.keyOriginShapeBoundingBox;
+  if (boundingBox && corners && corners.length > 0 && boundingBox.left.units === 'Pixels') {
+    const xs = corners.map(c => c.x);
+    const ys = corners.map(c => c.y);
+    boundingBox = {
+      left: { ...boundingBox.left, value: Math.min(...xs) },
+      top: { ...boundingBox.top, value: Math.min(...ys) },
+      right: { ...boundingBox.right, value: Math.max(...xs) },
+      bottom: { ...boundingBox.bottom, value: Math.max(...ys) }
+    };
+  }
+
+  const radiusScale = Math.min(scaleX, scaleY);
+  const radii = item.keyOriginRRectRadii;
+
+  return {
+    ...item,
+    keyOriginBoxCorners: corners,
+    keyOriginShapeBoundingBox: boundingBox,
+    keyOriginRRectRadii: radii ? {
+      topLeft: scaleUnits(radii.topLeft, radiusScale)!,
+      topRight: scaleUnits(radii.topRight, radiusScale)!,
+      bottomLeft: scaleUnits(radii.bottomLeft, radiusScale)!,
+      bottomRight: scaleUnits(radii.bottomRight, radiusScale)!
+    } : undefined
+  };
+};
+
+// --- LAYER EFFECTS ---
+
+// Only absolute lengths scale; percentage-like units (choke stored as 'None' / 'Density') are kept
+const scaleLength = (value: UnitsValue | undefined, k: number): UnitsValue | undefined =>
+  value && (value.units === 'Pixels' || value.units === 'Points') ? scaleUnits(value, k) : value;
+
+/**
+ * Scales the pixel-sized parameters of every layer effect (distance, size, choke, soften, stroke width,
+ * pattern scale) so a shrunken layer keeps the proportions of its shadows, glows and strokes.
+ *
+ * @param effects The source layer effects as read by ag-psd.
+ * @param k The layer's effect scale (see getEffectScale).
+ */
+export const scaleLayerEffects = (effects: LayerEffectsInfo, k: number): LayerEffectsInfo => ({
+  ...effects,
+  dropShadow: effects.dropShadow?.map(shadow => ({
+    ...shadow,
+    distance: scaleLength(shadow.distance, k),
+    size: scaleLength(shadow.size, k),
+    choke: scaleLength(shadow.choke, k)
+  })),
+  innerShadow: effects.innerShadow?.map(shadow => ({
+    ...shadow,
+    distance: scaleLength(shadow.distance, k),
+    size: scaleLength(shadow.size, k),
+    choke: scaleLength(shadow.choke, k)
+  })),
+  outerGlow: effects.outerGlow ? {
+    ...effects.outerGlow,
+    size: scaleLength(effects.outerGlow.size, k),
+    choke: scaleLength(effects.outerGlow.choke, k)
+  } : undefined,
+  innerGlow: effects.innerGlow ? {
+    ...effects.innerGlow,
+    size: scaleLength(effects.innerGlow.size, k),
+    choke: scaleLength(effects.innerGlow.choke, k)
+  } : undefined,
+  bevel: effects.bevel ? {
+    ...effects.bevel,
+    size: scaleLength(effects.bevel.size, k),
+    soften: scaleLength(effects.bevel.soften, k)
+  } : undefined,
+  satin: effects.satin ? {
+    ...effects.satin,
+    size: scaleLength(effects.satin.size, k),
+    distance: scaleLength(effects.satin.distance, k)
+  } : undefined,
+  stroke: effects.stroke?.map(stroke => ({ ...stroke, size: scaleLength(stroke.size, k) })),
+  patternOverlay: effects.patternOverlay ? {
+    ...effects.patternOverlay,
+    scale: scaleOptional(effects.patternOverlay.scale, k)
+  } : undefined
+});
+
+// --- RASTER MASK ---
+
+/**
+ * Moves and resamples a raster layer mask with its layer (same placement as the preview compositor:
+ * scaled relative to the layer's original top-left, rotation not applied to the mask).
+ */
+const transformLayerMask = (mask: LayerMaskData, layer: TransformedLayer): LayerMaskData => {
+  if (mask.top === undefined || mask.left === undefined || mask.bottom === undefined || mask.right === undefined) return mask;
+  const { scaleX, scaleY, offsetX, offsetY } = layer.transform;
+  const originalX = layer.coords.x - offsetX;
+  const originalY = layer.coords.y - offsetY;
+
+  const left = Math.round(layer.coords.x + (mask.left - originalX) * scaleX);
+  const top = Math.round(layer.coords.y + (mask.top - originalY) * scaleY);
+  const width = Math.max(1, Math.round((mask.right - mask.left) * scaleX));
+  const height = Math.max(1, Math.round((mask.bottom - mask.top) * scaleY));
+
+  let canvas = mask.canvas;
+  if (canvas && (canvas.width !== width || canvas.height !== height)) {
+    const resampled = createCanvas(width, height);
+    const ctx = resampled.getContext('2d');
+    if (ctx) {
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(canvas, 0, 0, width, height);
+      canvas = resampled;
+    }
+  }
+
+  return { ...mask, left, top, right: left + width, bottom: top + height, canvas, imageData: undefined };
+};
+
+/**
+ * Re-targets the editable data of an ag-psd layer to its remapped placement:
+ * live text, smart object transforms, vector masks / shape origination, the raster mask
+ * and the pixel sizes of layer effects.
+ * The layer pixels (canvas) are left to the caller; they remain the rendered preview
+ * Photoshop shows until it re-renders the live content.
+ *
+ * @param original The source layer as read by ag-psd.
+ * @param layer The remapped layer (coords + transform).
+ * @returns The layer fields to override (empty when the transform is identity).
+ */
+export const retargetEditableData = (original: Layer, layer: TransformedLayer): Partial<Layer> => {
+  if (isIdentity(layer)) return {};
+  const map = createPointMapper(layer);
+  const effectScale = getEffectScale(layer);
+  const result: Partial<Layer> = {};
+
+  if (original.text) result.text = transformTextData(original.text, layer, map);
+  if (original.placedLayer) result.placedLayer = transformPlacedLayer(original.placedLayer, map);
+  if (original.vectorMask) result.vectorMask = transformVectorMask(original.vectorMask, map);
+  if (original.vectorOrigination) {
+    result.vectorOrigination = {
+      ...original.vectorOrigination,
+      keyDescriptorList: original.vectorOrigination.keyDescriptorList.map(item => transformKeyDescriptor(item, layer, map))
+    };
+  }
+  if (original.vectorStroke?.lineWidth) {
+    result.vectorStroke = { ...original.vectorStroke, lineWidth: scaleUnits(original.vectorStroke.lineWidth, effectScale) };
+  }
+  if (original.mask) result.mask = transformLayerMask(original.mask, layer);
+  if (original.effects && effectScale !== 1) result.effects = scaleLayerEffects(original.effects, effectScale);
+
+  return result;
+};
+
+/**
+ * True when the layer carries live content Photoshop can re-render (text, smart object, vector shape).
+ */
+export const hasEditableData = (layer: Layer): boolean =>
+  !!(layer.text || layer.placedLayer || layer.vectorMask);
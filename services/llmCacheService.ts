@@ -0,0 +1,166 @@
+import { LlmFixtures, LlmSettings } from '../types';
+import { LlmProvider, requestKey } from './llmProviderService';
+
+// Record/replay cache for model responses, persisted in IndexedDB and keyed by requestKey scoped to the
+// answering backend (provider + endpoint + effective model, then model + instructions + prompt parts + images).
+// Entries are tagged with the projects that used them, so a saved project embeds only its own responses.
+// Exported cache files use the fixture format.
+
+const DB_NAME = 'psd-procedural-ai-cache';
+const DB_VERSION = 1;
+const STORE = 'responses';
+
+interface CachedResponse {
+  key: string;
+  kind: 'text' | 'image';
+  value: string;
+  model: string;
+  createdAt: number;
+  projects?: string[]; // ProjectSettings.projectId of every project that recorded or replayed it
+}
+
+const withProject = (entry: CachedResponse, projectId: string | undefined): CachedResponse =>
+  !projectId || entry.projects?.includes(projectId) ? entry : { ...entry, projects: [...(entry.projects || []), projectId] };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'key' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(e => {
+      // Allow a retry on the next call
+      dbPromise = null;
+      throw e;
+    });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction; writes resolve once the transaction commits
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const request = action(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const readResponse = (key: string) => runRequest<CachedResponse | undefined>('readonly', store => store.get(key));
+
+const writeResponse = (entry: CachedResponse) => runRequest('readwrite', store => store.put(entry));
+
+export const countCachedResponses = (): Promise<number> => runRequest('readonly', store => store.count());
+
+export const clearResponseCache = (): Promise<void> => runRequest('readwrite', store => store.clear()).then(() => undefined);
+
+/**
+ * Dumps the cache in fixture format (embedded in saved projects, or usable by the fixture provider).
+ *
+ * @param projectId Only the responses this project recorded, replayed or imported; the whole cache when absent.
+ */
+export const exportResponseCache = async (projectId?: string): Promise<LlmFixtures> => {
+  const entries = await runRequest<CachedResponse[]>('readonly', store => store.getAll());
+  const fixtures: LlmFixtures = { text: {}, images: {} };
+  entries.filter(entry => !projectId || entry.projects?.includes(projectId)).forEach(entry => {
+    (entry.kind === 'image' ? fixtures.images : fixtures.text)[entry.key] = entry.value;
+  });
+  return fixtures;
+};
+
+/**
+ * Merges fixture-format responses into the cache (existing keys are overwritten, keeping their project tags).
+ *
+ * @param projectId Project the responses belong to (the loaded project).
+ * @returns The number of imported responses.
+ */
+export const importResponseCache = async (fixtures: LlmFixtures, projectId?: string): Promise<number> => {
+  const now = Date.now();
+  const entries: CachedResponse[] = [
+    ...Object.entries(fixtures.text || {}).map(([key, value]) => ({ key, kind: 'text' as const, value, model: '', createdAt: now })),
+    ...Object.entries(fixtures.images || {}).map(([key, value]) => ({ key, kind: 'image' as const, value, model: '', createdAt: now }))
+  ];
+  if (entries.length === 0) return 0;
+
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    entries.forEach(entry => {
+      const existing = store.get(entry.key);
+      existing.onsuccess = () => {
+        const previous: CachedResponse | undefined = existing.result;
+        store.put(withProject({ ...entry, projects: previous?.projects }, projectId));
+      };
+    });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return entries.length;
+};
+
+/**
+ * Wraps a provider with the response cache.
+ * 'record': cached responses are reused, misses go to the backend and are stored.
+ * 'replay': only cached responses are served; a miss fails without touching the network.
+ * Cache read/write failures (e.g. IndexedDB unavailable) fall back to the backend while recording.
+ * The fixture provider is never cached: it already replays recordings, and its placeholders
+ * for missing fixtures must not be stored as responses.
+ * Stored and served responses are tagged with projectId (see exportResponseCache).
+ */
+export const withResponseCache = (provider: LlmProvider, mode: LlmSettings['cacheMode'], projectId?: string): LlmProvider => {
+  if (!mode || mode === 'off' || provider.kind === 'fixture') return provider;
+
+  const lookup = async (key: string): Promise<CachedResponse | undefined> => {
+    try {
+      return await readResponse(key);
+    } catch (e) {
+      if (mode === 'replay') throw e;
+      console.warn('[llm:cache] Read failed', e);
+      return undefined;
+    }
+  };
+
+  const store = (entry: CachedResponse) => writeResponse(entry).catch(e => console.warn('[llm:cache] Write failed', e));
+
+  // A response recorded by another project becomes part of this one once it is served here
+  const serve = (hit: CachedResponse) => {
+    const tagged = withProject(hit, projectId);
+    if (tagged !== hit) store(tagged);
+    return hit.value;
+  };
+
+  const missing = (key: string) => new Error(`No recorded response for this request (replay mode, key ${key}).`);
+
+  return {
+    kind: provider.kind,
+    cacheScope: provider.cacheScope,
+    generateText: async (request) => {
+      const key = requestKey(request, provider.cacheScope(request));
+      const hit = await lookup(key);
+      if (hit) return serve(hit);
+      if (mode === 'replay') throw missing(key);
+
+      const value = await provider.generateText(request);
+      await store(withProject({ key, kind: 'text', value, model: request.model, createdAt: Date.now() }, projectId));
+      return value;
+    },
+    generateImage: async (request) => {
+      const key = requestKey(request, provider.cacheScope(request));
+      const hit = await lookup(key);
+      if (hit) return serve(hit);
+      if (mode === 'replay') throw missing(key);
+
+      const value = await provider.generateImage(request);
+      if (value) await store(withProject({ key, kind: 'image', value, model: request.model, createdAt: Date.now() }, projectId));
+      return value;
+    }
+  };
+};
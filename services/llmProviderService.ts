@@ -0,0 +1,226 @@
+import { GoogleGenAI, Schema } from '@google/genai';
+import { LlmFixtures, LlmSettings } from '../types';
+
+// Every model call in the graph goes through an LlmProvider, chosen from the project settings (see ProceduralStore).
+
+export type LlmPart = { text: string } | { inlineData: { mimeType: string, data: string } };
+
+export interface LlmTextRequest {
+  model: string;
+  parts: LlmPart[];
+  systemInstruction?: string;
+  // Ask for a JSON body (optionally constrained by a schema); callers still validate it
+  json?: boolean;
+  responseSchema?: Schema;
+  thinkingBudget?: number;
+}
+
+export interface LlmImageRequest {
+  model: string;
+  prompt: string;
+  // Base64 PNG (or data URL) the image should be grounded on
+  reference?: string;
+  width: number;
+  height: number;
+}
+
+export interface LlmProvider {
+  kind: LlmSettings['provider'];
+  // Backend that actually answers a request (kind, endpoint, effective model); scopes cache keys
+  cacheScope: (request: LlmTextRequest | LlmImageRequest) => string;
+  // Text or JSON completion; multimodal through inlineData parts
+  generateText: (request: LlmTextRequest) => Promise<string>;
+  // Base64 PNG, null when the backend returned no image
+  generateImage: (request: LlmImageRequest) => Promise<string | null>;
+}
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = { provider: 'gemini' };
+
+const stripDataUrl = (data: string) => data.includes('base64,') ? data.split('base64,')[1] : data;
+
+// --- Request Keys ---
+
+// FNV-1a, 2 x 32 bit (different offsets) for a 16 hex digit key
+const hashString = (input: string): string => {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193 ^ 0x5bd1e995;
+  for (let i = 0; i < input.length; i++) {
+    const c = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 0x01000193);
+    h2 = Math.imul(h2 ^ c, 0x01000193);
+  }
+  return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0');
+};
+
+const toScope = (kind: LlmSettings['provider'], endpoint: string, model: string) => [kind, endpoint, model].join('\u0000');
+
+/**
+ * Deterministic key of a request: model, instructions, every prompt part and image.
+ * With a provider's cacheScope the key becomes `<scope hash>:<request hash>`, so recordings of
+ * different backends, endpoints or models never answer each other. Fixtures match on the request hash.
+ */
+export const requestKey = (request: LlmTextRequest | LlmImageRequest, scope?: string): string => {
+  const canonical = 'parts' in request
+    ? ['text', request.model, request.systemInstruction || '', request.json ? 'json' : '', request.responseSchema ? JSON.stringify(request.responseSchema) : '', String(request.thinkingBudget || 0),
+        ...request.parts.map(part => 'text' in part ? `t:${part.text}` : `i:${part.inlineData.mimeType}:${part.inlineData.data}`)]
+    : ['image', request.model, request.prompt, `${request.width}x${request.height}`, request.reference ? stripDataUrl(request.reference) : ''];
+  const key = hashString(canonical.join('\u0000'));
+  return scope ? `${hashString(scope)}:${key}` : key;
+};
+
+// --- Gemini ---
+
+// Closest aspect ratio supported by the Gemini image models
+const getClosestAspectRatio = (width: number, height: number): string => {
+  const ratio = width / height;
+  const targets: Record<string, number> = { '1:1': 1, '3:4': 0.75, '4:3': 1.333, '9:16': 0.5625, '16:9': 1.777 };
+  return Object.keys(targets).reduce((prev, curr) => Math.abs(targets[curr] - ratio) < Math.abs(targets[prev] - ratio) ? curr : prev);
+};
+
+/**
+ * Google GenAI backend. The client is created per call so a missing key only fails the call that needs it.
+ */
+export const createGeminiProvider = (apiKey: string | undefined): LlmProvider => {
+  const client = () => {
+    if (!apiKey) throw new Error('API_KEY missing');
+    return new GoogleGenAI({ apiKey });
+  };
+
+  return {
+    kind: 'gemini',
+    cacheScope: (request) => toScope('gemini', '', request.model),
+    generateText: async (request) => {
+      const response = await client().models.generateContent({
+        model: request.model,
+        contents: [{ role: 'user', parts: request.parts }],
+        config: {
+          ...(request.systemInstruction ? { systemInstruction: request.systemInstruction } : {}),
+          ...(request.json ? { responseMimeType: 'application/json' } : {}),
+          ...(request.responseSchema ? { responseSchema: request.responseSchema } : {}),
+          ...(request.thinkingBudget ? { thinkingConfig: { thinkingBudget: request.thinkingBudget } } : {})
+        }
+      });
+      return response.text || '';
+    },
+    generateImage: async (request) => {
+      const parts: LlmPart[] = [];
+      if (request.reference) parts.push({ inlineData: { mimeType: 'image/png', data: stripDataUrl(request.reference) } });
+      parts.push({ text: request.prompt });
+
+      const response = await client().models.generateContent({
+        model: request.model,
+        contents: { parts },
+        config: { imageConfig: { aspectRatio: getClosestAspectRatio(request.width, request.height) } }
+      });
+      const part = (response.candidates?.[0]?.content?.parts || []).find(p => p.inlineData?.data);
+      return part?.inlineData?.data || null;
+    }
+  };
+};
+
+// --- OpenAI-Compatible (local) ---
+
+// Gemini schemas use upper-case type names ('OBJECT'); JSON Schema wants lower-case
+const toJsonSchema = (schema: unknown): unknown => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (typeof schema !== 'object' || schema === null) return schema;
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) =>
+    [key, key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value)]));
+};
+
+/**
+ * Backend for OpenAI-compatible servers (llama.cpp, Ollama, LM Studio, vLLM...).
+ * The node's requested model is replaced by the configured local models.
+ */
+export const createOpenAiCompatibleProvider = (settings: LlmSettings): LlmProvider => {
+  const baseUrl = (settings.endpoint || 'http://localhost:11434/v1').replace(/\/+$/, '');
+
+  const post = async (path: string, body: object) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) throw new Error(`Local model endpoint returned ${response.status}: ${await response.text()}`);
+    return response.json();
+  };
+
+  const effectiveModel = (request: LlmTextRequest | LlmImageRequest) =>
+    ('parts' in request ? settings.textModel : settings.imageModel) || request.model;
+
+  return {
+    kind: 'openai-compatible',
+    cacheScope: (request) => toScope('openai-compatible', baseUrl, effectiveModel(request)),
+    generateText: async (request) => {
+      const content = request.parts.map(part => 'text' in part
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } });
+
+      const json = await post('/chat/completions', {
+        model: effectiveModel(request),
+        messages: [
+          ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+          { role: 'user', content }
+        ],
+        ...(request.responseSchema
+          ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(request.responseSchema) } } }
+          : request.json ? { response_format: { type: 'json_object' } } : {})
+      });
+      return json.choices?.[0]?.message?.content || '';
+    },
+    generateImage: async (request) => {
+      const json = await post('/images/generations', {
+        model: effectiveModel(request),
+        prompt: request.prompt,
+        size: `${Math.round(request.width)}x${Math.round(request.height)}`,
+        response_format: 'b64_json'
+      });
+      return json.data?.[0]?.b64_json || null;
+    }
+  };
+};
+
+// --- Fixtures (offline / tests) ---
+
+// Fixture entries by request hash: recordings exported from the cache carry a `<scope hash>:` prefix
+const indexByRequest = (entries: Record<string, string> = {}) =>
+  new Map(Object.entries(entries).map(([key, value]) => [key.slice(key.lastIndexOf(':') + 1), value]));
+
+/**
+ * Deterministic offline backend: answers from fixtures keyed by requestKey, whichever backend recorded them.
+ * Unknown requests get an empty JSON object (repaired to defaults downstream), a note, or no image.
+ */
+export const createFixtureProvider = (fixtures: LlmFixtures = { text: {}, images: {} }): LlmProvider => {
+  const text = indexByRequest(fixtures.text);
+  const images = indexByRequest(fixtures.images);
+
+  return {
+    kind: 'fixture',
+    cacheScope: () => toScope('fixture', '', ''),
+    generateText: async (request) => {
+      const key = requestKey(request);
+      const value = text.get(key);
+      if (value !== undefined) return value;
+      console.warn(`[llm:fixture] No text fixture for ${key}`);
+      return request.json || request.responseSchema ? '{}' : `No fixture recorded for this request (${key}).`;
+    },
+    generateImage: async (request) => {
+      const key = requestKey(request);
+      const value = images.get(key);
+      if (value !== undefined) return value;
+      console.warn(`[llm:fixture] No image fixture for ${key}`);
+      return null;
+    }
+  };
+};
+
+/**
+ * Creates the provider selected in the project settings.
+ */
+export const createLlmProvider = (settings: LlmSettings, apiKey: string | undefined): LlmProvider => {
+  switch (settings.provider) {
+    case 'openai-compatible': return createOpenAiCompatibleProvider(settings);
+    case 'fixture': return createFixtureProvider(settings.fixtures);
+    default: return createGeminiProvider(apiKey);
+  }
+};
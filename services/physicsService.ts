@@ -0,0 +1,255 @@
+import { SerializableLayer, TransformedLayer, OpticalMetrics, LayoutStrategy, MAX_BOUNDARY_VIOLATION_PERCENT } from '../types';
+
+type Box = { x: number, y: number, w: number, h: number };
+type PhysicsRules = NonNullable<LayoutStrategy['physicsRules']>;
+type SafetyReport = NonNullable<LayoutStrategy['safetyReport']>;
+
+// Uniform affine adjustment accumulated per body: p' = p * k + t
+interface Adjustment {
+  k: number;
+  tx: number;
+  ty: number;
+}
+
+const MAX_CONSTRAINT_ITERATIONS = 32;
+// Overlaps thinner than this are treated as touching edges (layout engine rounding)
+const OVERLAP_EPSILON = 0.5;
+// Per-iteration shrink once nudging alone has failed to settle the layout
+const SHRINK_STEP = 0.95;
+
+/**
+ * Resolves the visual box of a layer in global coordinates.
+ * Pixel layers use their optical bounds when available (scaled by the layer transform);
+ * groups union their visible children, since ag-psd group bounds are frequently empty.
+ *
+ * @param layer A source (SerializableLayer) or remapped (TransformedLayer) layer.
+ * @param optical Optical metrics keyed by layer path ID, relative to the unscaled layer bounds.
+ */
+export const measureVisualBox = (
+  layer: SerializableLayer | TransformedLayer,
+  optical?: Record<string, OpticalMetrics>
+): Box | null => {
+  if (layer.children && layer.children.length > 0) {
+    const boxes = layer.children
+      .filter(child => child.isVisible)
+      .map(child => measureVisualBox(child, optical))
+      .filter((box): box is Box => !!box);
+    if (boxes.length === 0) return null;
+    const minX = Math.min(...boxes.map(b => b.x));
+    const minY = Math.min(...boxes.map(b => b.y));
+    const maxX = Math.max(...boxes.map(b => b.x + b.w));
+    const maxY = Math.max(...boxes.map(b => b.y + b.h));
+    return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+  }
+
+  const metrics = optical?.[layer.id];
+  if (metrics && metrics.bounds.w > 0 && metrics.bounds.h > 0) {
+    const transform = (layer as TransformedLayer).transform;
+    const scaleX = transform?.scaleX ?? 1;
+    const scaleY = transform?.scaleY ?? 1;
+    return {
+      x: layer.coords.x + metrics.bounds.x * scaleX,
+      y: layer.coords.y + metrics.bounds.y * scaleY,
+      w: metrics.bounds.w * scaleX,
+      h: metrics.bounds.h * scaleY
+    };
+  }
+  if (layer.coords.w <= 0 || layer.coords.h <= 0) return null;
+  return { ...layer.coords };
+};
+
+const applyToBox = (box: Box, adj: Adjustment): Box => ({
+  x: box.x * adj.k + adj.tx,
+  y: box.y * adj.k + adj.ty,
+  w: box.w * adj.k,
+  h: box.h * adj.k
+});
+
+// Composes a scale about a pivot and a translation onto an existing adjustment
+const compose = (adj: Adjustment, k: number, pivotX: number, pivotY: number, dx: number, dy: number): Adjustment => ({
+  k: adj.k * k,
+  tx: (adj.tx - pivotX) * k + pivotX + dx,
+  ty: (adj.ty - pivotY) * k + pivotY + dy
+});
+
+// Pinned descendants (fixedIds) keep their override coords and are not carried with the moved subtree
+const applyToLayer = (layer: TransformedLayer, adj: Adjustment, fixedIds: Set<string>): TransformedLayer => {
+  const x = layer.coords.x * adj.k + adj.tx;
+  const y = layer.coords.y * adj.k + adj.ty;
+  // Original (source) position is recoverable from the recorded offset
+  const originalX = layer.coords.x - layer.transform.offsetX;
+  const originalY = layer.coords.y - layer.transform.offsetY;
+  return {
+    ...layer,
+    coords: { x, y, w: layer.coords.w * adj.k, h: layer.coords.h * adj.k },
+    transform: {
+      ...layer.transform,
+      scaleX: layer.transform.scaleX * adj.k,
+      scaleY: layer.transform.scaleY * adj.k,
+      offsetX: x - originalX,
+      offsetY: y - originalY
+    },
+    children: layer.children ? layer.children.map(child => fixedIds.has(child.id) ? child : applyToLayer(child, adj, fixedIds)) : undefined
+  };
+};
+
+/**
+ * Checks whether a box exceeds the bounds by more than MAX_BOUNDARY_VIOLATION_PERCENT
+ * of the bounds dimension on either axis.
+ */
+const isClipping = (box: Box, bounds: Box): boolean => {
+  const overflowX = Math.max(0, bounds.x - box.x) + Math.max(0, (box.x + box.w) - (bounds.x + bounds.w));
+  const overflowY = Math.max(0, bounds.y - box.y) + Math.max(0, (box.y + box.h) - (bounds.y + bounds.h));
+  return overflowX > bounds.w * MAX_BOUNDARY_VIOLATION_PERCENT || overflowY > bounds.h * MAX_BOUNDARY_VIOLATION_PERCENT;
+};
+
+const getOverlap = (a: Box, b: Box): { w: number, h: number } => ({
+  w: Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x),
+  h: Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y)
+});
+
+const isOverlapping = (a: Box, b: Box): boolean => {
+  const overlap = getOverlap(a, b);
+  return overlap.w > OVERLAP_EPSILON && overlap.h > OVERLAP_EPSILON;
+};
+
+const flatten = (layers: TransformedLayer[], into = new Map<string, TransformedLayer>()): Map<string, TransformedLayer> => {
+  layers.forEach(layer => {
+    into.set(layer.id, layer);
+    if (layer.children) flatten(layer.children, into);
+  });
+  return into;
+};
+
+/**
+ * Enforces LayoutStrategy.physicsRules on the remapped 'flow' layers.
+ *
+ * Iterative constraint resolution:
+ * - preventClipping: oversized bodies shrink to fit, clipping bodies are nudged back inside.
+ * - preventOverlap: overlapping bodies are pushed apart along the axis of least penetration;
+ *   after half the iteration budget, overlapping bodies shrink instead (nudging is oscillating).
+ * Fixed bodies (pinned by an override) act as obstacles but never move.
+ * Overlays linked to a moved body follow it.
+ *
+ * @param layers The remapped layer tree.
+ * @param bounds The target container bounds.
+ * @param rules The physics rules to enforce.
+ * @param bodyIds IDs of the 'flow' layers taking part in the simulation.
+ * @param fixedIds IDs of bodies that must not move.
+ * @param optical Optical metrics keyed by layer path ID.
+ * @returns The adjusted layer tree and a safety report with the residual violation count.
+ */
+export const enforcePhysicsRules = (
+  layers: TransformedLayer[],
+  bounds: Box,
+  rules: PhysicsRules,
+  bodyIds: string[],
+  fixedIds: Set<string>,
+  optical?: Record<string, OpticalMetrics>
+): { layers: TransformedLayer[], safetyReport: SafetyReport } => {
+  const index = flatten(layers);
+  const bodies = bodyIds
+    .map(id => index.get(id))
+    .filter((layer): layer is TransformedLayer => !!layer && layer.isVisible)
+    .map(layer => ({ id: layer.id, box: measureVisualBox(layer, optical), movable: !fixedIds.has(layer.id), adj: { k: 1, tx: 0, ty: 0 } as Adjustment }))
+    .filter((body): body is { id: string, box: Box, movable: boolean, adj: Adjustment } => !!body.box && body.box.w > 0 && body.box.h > 0);
+
+  const current = (body: typeof bodies[number]) => applyToBox(body.box, body.adj);
+
+  for (let iteration = 0; iteration < MAX_CONSTRAINT_ITERATIONS; iteration++) {
+    let changed = false;
+
+    if (rules.preventClipping) {
+      bodies.forEach(body => {
+        if (!body.movable) return;
+        let box = current(body);
+        if (!isClipping(box, bounds)) return;
+        if (box.w > bounds.w || box.h > bounds.h) {
+          const k = Math.min(bounds.w / box.w, bounds.h / box.h);
+          body.adj = compose(body.adj, k, box.x + box.w / 2, box.y + box.h / 2, 0, 0);
+          box = current(body);
+        }
+        const dx = box.x < bounds.x ? bounds.x - box.x : Math.min(0, (bounds.x + bounds.w) - (box.x + box.w));
+        const dy = box.y < bounds.y ? bounds.y - box.y : Math.min(0, (bounds.y + bounds.h) - (box.y + box.h));
+        body.adj = compose(body.adj, 1, 0, 0, dx, dy);
+        changed = true;
+      });
+    }
+
+    if (rules.preventOverlap) {
+      const shrinkPhase = iteration >= MAX_CONSTRAINT_ITERATIONS / 2;
+      for (let i = 0; i < bodies.length; i++) {
+        for (let j = i + 1; j < bodies.length; j++) {
+          const a = bodies[i];
+          const b = bodies[j];
+          if (!a.movable && !b.movable) continue;
+          const boxA = current(a);
+          const boxB = current(b);
+          if (!isOverlapping(boxA, boxB)) continue;
+          changed = true;
+
+          if (shrinkPhase) {
+            [a, b].forEach(body => {
+              if (!body.movable) return;
+              const box = current(body);
+              body.adj = compose(body.adj, SHRINK_STEP, box.x + box.w / 2, box.y + box.h / 2, 0, 0);
+            });
+            continue;
+          }
+
+          // Push apart along the axis of least penetration, split between the movable bodies
+          const overlap = getOverlap(boxA, boxB);
+          const alongX = overlap.w <= overlap.h;
+          const direction = alongX
+            ? Math.sign((boxB.x + boxB.w / 2) - (boxA.x + boxA.w / 2)) || 1
+            : Math.sign((boxB.y + boxB.h / 2) - (boxA.y + boxA.h / 2)) || 1;
+          const push = (alongX ? overlap.w : overlap.h) + OVERLAP_EPSILON;
+          const shareA = a.movable ? (b.movable ? push / 2 : push) : 0;
+          const shareB = b.movable ? push - shareA : 0;
+          a.adj = compose(a.adj, 1, 0, 0, alongX ? -direction * shareA : 0, alongX ? 0 : -direction * shareA);
+          b.adj = compose(b.adj, 1, 0, 0, alongX ? direction * shareB : 0, alongX ? 0 : direction * shareB);
+        }
+      }
+    }
+
+    if (!changed) break;
+  }
+
+  // Residual violations after the solver settled (or ran out of iterations)
+  let violationCount = 0;
+  if (rules.preventClipping) {
+    violationCount += bodies.filter(body => isClipping(current(body), bounds)).length;
+  }
+  if (rules.preventOverlap) {
+    for (let i = 0; i < bodies.length; i++) {
+      for (let j = i + 1; j < bodies.length; j++) {
+        if (isOverlapping(current(bodies[i]), current(bodies[j]))) violationCount++;
+      }
+    }
+  }
+
+  // Moved bodies carry their subtree (except pinned layers); overlays linked to a moved body follow it
+  const adjustments = new Map<string, Adjustment>();
+  bodies.forEach(body => {
+    if (body.adj.k !== 1 || body.adj.tx !== 0 || body.adj.ty !== 0) adjustments.set(body.id, body.adj);
+  });
+  index.forEach(layer => {
+    if (layer.layoutRole !== 'overlay' || !layer.linkedAnchorId || adjustments.has(layer.id)) return;
+    const anchorAdj = adjustments.get(layer.linkedAnchorId);
+    if (anchorAdj && !fixedIds.has(layer.id)) adjustments.set(layer.id, anchorAdj);
+  });
+
+  const rebuild = (nodes: TransformedLayer[]): TransformedLayer[] => nodes.map(node => {
+    const adj = adjustments.get(node.id);
+    if (adj) return applyToLayer(node, adj, fixedIds);
+    return node.children ? { ...node, children: rebuild(node.children) } : node;
+  });
+
+  return {
+    layers: adjustments.size > 0 ? rebuild(layers) : layers,
+    safetyReport: {
+      allowedBleed: !rules.preventClipping,
+      violationCount
+    }
+  };
+};
@@ -1,5 +1,6 @@
-import { readPsd, writePsd, Psd, ReadOptions, WriteOptions, Layer } from 'ag-psd';
-import { TemplateMetadata, ContainerDefinition, DesignValidationReport, ValidationIssue, SerializableLayer, ContainerContext, TransformedPayload, TransformedLayer, OpticalMetrics } from '../types';
+import { readPsd, writePsd, Psd, ReadOptions, WriteOptions, Layer, LayerEffectsInfo, Color } from 'ag-psd';
+import { TemplateMetadata, ContainerDefinition, DesignValidationReport, ValidationIssue, SerializableLayer, ContainerContext, TransformedPayload, TransformedLayer, OpticalMetrics, OpacityCoercion, LayerEffectsPreview } from '../types';
+import { buildCompositeJob, renderCompositeJob, CompositeBuffer, CompositeJob } from './compositorCore';
 
 // --- Procedural Palette & Theme Logic ---
 
@@ -87,6 +88,32 @@ export const getSemanticThemeObject = (name: string, index: number): PaletteThem
     return theme || CONTAINER_PALETTE[0];
 };
 
+// --- Canvas Provider ---
+
+export type CanvasFactory = (width: number, height: number) => HTMLCanvasElement;
+
+let canvasFactory: CanvasFactory = (width, height) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * Replaces the canvas implementation used by the services (defaults to the DOM).
+ * Headless runs supply a Node canvas here and to ag-psd's own initializeCanvas.
+ */
+export const setCanvasFactory = (factory: CanvasFactory) => {
+  canvasFactory = factory;
+};
+
+/**
+ * Allocates a blank canvas through the active canvas factory.
+ */
+export const createCanvas = (width: number, height: number): HTMLCanvasElement => canvasFactory(width, height);
+
+// --- PSD Parsing ---
+
 export interface PSDParseOptions {
   /**
    * Whether to skip parsing layer image data.
@@ -100,6 +127,50 @@ export interface PSDParseOptions {
   skipThumbnail?: boolean;
 }
 
+/**
+ * Parses a PSD binary using ag-psd with enhanced error handling and configuration.
+ * Shared by the browser file loader and headless (Node) runs.
+ * @param buffer The raw file contents.
+ * @param options Configuration options for parsing.
+ * @returns The parsed Psd object.
+ * @throws With a user-facing message when the binary is empty, not a PSD or truncated.
+ */
+export const parsePsdBuffer = (buffer: ArrayBuffer | Uint8Array, options: PSDParseOptions = {}): Psd => {
+  if (buffer.byteLength === 0) {
+    throw new Error('The provided file is empty.');
+  }
+
+  try {
+    // Configure parsing options
+    const readOptions: ReadOptions = {
+      skipLayerImageData: options.skipLayerImageData ?? false,
+      skipThumbnail: options.skipThumbnail ?? true,
+    };
+
+    // Attempt to parse the PSD
+    return readPsd(buffer, readOptions);
+
+  } catch (error: any) {
+    console.error("PSD Parsing Logic Error:", error);
+
+    // Distinguish between different types of errors
+    let errorMessage = 'Failed to parse PSD structure.';
+    
+    if (error instanceof Error) {
+      // Check for common ag-psd or format errors
+      if (error.message.includes('Invalid signature') || error.message.includes('Signature not found')) {
+        errorMessage = 'Invalid file format. The file does not appear to be a valid Adobe Photoshop file.';
+      } else if (error.message.includes('RangeError') || error.message.includes('Out of bounds')) {
+         errorMessage = 'The PSD file appears to be corrupted or truncated (Buffer out of bounds).';
+      } else {
+         errorMessage = `PSD Parsing Error: ${error.message}`;
+      }
+    }
+
+    throw new Error(errorMessage);
+  }
+};
+
 /**
  * Parses a PSD file using ag-psd with enhanced error handling and configuration.
  * @param file The File object to parse.
@@ -125,40 +196,10 @@ export const parsePsdFile = async (file: File, options: PSDParseOptions = {}): P
         return;
       }
 
-      if (arrayBuffer.byteLength === 0) {
-        reject(new Error('The provided file is empty.'));
-        return;
-      }
-
       try {
-        // Configure parsing options
-        const readOptions: ReadOptions = {
-          skipLayerImageData: options.skipLayerImageData ?? false,
-          skipThumbnail: options.skipThumbnail ?? true,
-        };
-
-        // Attempt to parse the PSD
-        const psd = readPsd(arrayBuffer, readOptions);
-        resolve(psd);
-
-      } catch (error: any) {
-        console.error("PSD Parsing Logic Error:", error);
-
-        // Distinguish between different types of errors
-        let errorMessage = 'Failed to parse PSD structure.';
-        
-        if (error instanceof Error) {
-          // Check for common ag-psd or format errors
-          if (error.message.includes('Invalid signature') || error.message.includes('Signature not found')) {
-            errorMessage = 'Invalid file format. The file does not appear to be a valid Adobe Photoshop file.';
-          } else if (error.message.includes('RangeError') || error.message.includes('Out of bounds')) {
-             errorMessage = 'The PSD file appears to be corrupted or truncated (Buffer out of bounds).';
-          } else {
-             errorMessage = `PSD Parsing Error: ${error.message}`;
-          }
-        }
-
-        reject(new Error(errorMessage));
+        resolve(parsePsdBuffer(arrayBuffer, options));
+      } catch (error) {
+        reject(error);
       }
     };
 
@@ -310,6 +351,67 @@ export const mapLayersToContainers = (psd: Psd, template: TemplateMetadata): Des
   };
 };
 
+/**
+ * Normalizes a raw ag-psd layer opacity to the 0-1 range.
+ * ag-psd decodes the opacity byte to a 0-1 float, so 0 is a genuinely invisible layer.
+ * Values above 1 can only come from byte-range producers (0-255) and are rescaled;
+ * anything else is clamped. Every deviation from the verbatim value is reported as a coercion.
+ *
+ * @param raw The layer opacity as read by ag-psd (undefined = fully opaque).
+ */
+export const normalizeLayerOpacity = (raw: number | undefined): { opacity: number, coercion?: OpacityCoercion } => {
+  if (raw === undefined) return { opacity: 1 };
+  if (!Number.isFinite(raw)) return { opacity: 1, coercion: { raw, reason: 'INVALID' } };
+  if (raw >= 0 && raw <= 1) return { opacity: raw };
+  if (raw > 1 && raw <= 255) return { opacity: raw / 255, coercion: { raw, reason: 'BYTE_RANGE' } };
+  return { opacity: Math.max(0, Math.min(1, raw)), coercion: { raw, reason: 'OUT_OF_RANGE' } };
+};
+
+/**
+ * Converts a normalized 0-1 opacity to the value ag-psd expects when writing
+ * (a 0-1 float it rescales to the opacity byte itself).
+ */
+export const toPsdOpacity = (opacity: number): number =>
+  Number.isFinite(opacity) ? Math.max(0, Math.min(1, opacity)) : 1;
+
+// Effect colors arrive in the document color space; previews only resolve RGB flavours (others fall back to black)
+const toPreviewRgb = (color?: Color): { r: number, g: number, b: number } => {
+  if (color && 'r' in color) return { r: color.r, g: color.g, b: color.b };
+  if (color && 'fr' in color) return { r: color.fr * 255, g: color.fg * 255, b: color.fb * 255 };
+  return { r: 0, g: 0, b: 0 };
+};
+
+/**
+ * Summarizes the layer effects the preview compositor approximates:
+ * the first enabled drop shadow and the first enabled color stroke (source pixel units).
+ */
+export const summarizeLayerEffects = (effects?: LayerEffectsInfo): LayerEffectsPreview | undefined => {
+  if (!effects || effects.disabled) return undefined;
+  const isActive = (effect: { enabled?: boolean, present?: boolean }) => effect.enabled !== false && effect.present !== false;
+
+  const summary: LayerEffectsPreview = {};
+  const shadow = effects.dropShadow?.find(isActive);
+  if (shadow) {
+    summary.dropShadow = {
+      color: toPreviewRgb(shadow.color),
+      opacity: shadow.opacity ?? 0.75,
+      angle: shadow.angle ?? 120,
+      distance: shadow.distance?.value ?? 0,
+      size: shadow.size?.value ?? 0
+    };
+  }
+  const stroke = effects.stroke?.find(effect => isActive(effect) && (effect.fillType ?? 'color') === 'color');
+  if (stroke && (stroke.size?.value ?? 0) > 0) {
+    summary.stroke = {
+      color: toPreviewRgb(stroke.color),
+      opacity: stroke.opacity ?? 1,
+      size: stroke.size!.value,
+      position: stroke.position ?? 'outside'
+    };
+  }
+  return summary.dropShadow || summary.stroke ? summary : undefined;
+};
+
 /**
  * Recursively maps ag-psd Layers to a simplified SerializableLayer structure.
  * USES DETERMINISTIC PATH IDs for reconstruction.
@@ -338,14 +440,7 @@ export const getCleanLayerTree = (layers: Layer[], path: string = ''): Serializa
     const width = right - left;
     const height = bottom - top;
     
-    // SAFETY FLOOR OPACITY MAPPING:
-    // ag-psd provides 0-255. Some files report 0 or 1 for 100%.
-    // We implement a safety floor where <= 1 is treated as 100% (1.0).
-    const rawOpacity = child.opacity ?? 255;
-    let normalizedOpacity = rawOpacity <= 1 ? 1.0 : rawOpacity / 255;
-
-    // Clamp to ensure float safety
-    normalizedOpacity = Math.max(0, Math.min(1, normalizedOpacity));
+    const { opacity, coercion } = normalizeLayerOpacity(child.opacity);
 
     const node: SerializableLayer = {
       id: currentPath,
@@ -354,13 +449,24 @@ export const getCleanLayerTree = (layers: Layer[], path: string = ''): Serializa
       // This ensures empty folders are typed as 'group', so recursive counting sees 0 leaves.
       type: (child.children && Array.isArray(child.children)) ? 'group' : 'layer',
       isVisible: !child.hidden,
-      opacity: normalizedOpacity, 
+      opacity,
+      opacityCoercion: coercion,
       coords: {
         x: left,
         y: top,
         w: width,
         h: height
       },
+      blendMode: child.blendMode,
+      clipping: child.clipping || undefined,
+      mask: child.mask && !child.mask.disabled && child.mask.canvas ? {
+        x: child.mask.left ?? 0,
+        y: child.mask.top ?? 0,
+        w: (child.mask.right ?? 0) - (child.mask.left ?? 0),
+        h: (child.mask.bottom ?? 0) - (child.mask.top ?? 0),
+        defaultColor: child.mask.defaultColor ?? 0
+      } : undefined,
+      effects: summarizeLayerEffects(child.effects),
       // Recursion
       children: child.children ? getCleanLayerTree(child.children, currentPath) : undefined
     };
@@ -398,50 +504,27 @@ export const findLayerByPath = (psd: Psd, pathId: string): Layer | null => {
 };
 
 /**
- * Composites a visual representation of the TransformedPayload using the original PSD binary data.
- * Uses a robust Recursive Painter's Algorithm in a "Clean Room" canvas environment.
- * Includes EXHAUSTIVE DIAGNOSTIC LOGGING to debug faint rendering issues.
- * 
+ * Renders a TransformedPayload into a fresh canvas (container-sized) using the original PSD binary data.
+ * Main-thread variant of the compositor (see compositorService for the worker pipeline);
+ * both paint through renderCompositeJob, so they produce identical pixels.
+ *
  * @param payload The transformed geometry and logic instructions.
  * @param psd The original binary source providing pixel data.
- * @returns A Promise resolving to a high-quality Data URL (image/png).
+ * @param options debug: verbose per-layer logging; matte: background fill (null = transparent, default Slate 900).
  */
-export const compositePayloadToCanvas = async (payload: TransformedPayload, psd: Psd): Promise<string | null> => {
+export const renderPayloadToCanvas = async (
+    payload: TransformedPayload,
+    psd: Psd,
+    options: { debug?: boolean, matte?: string | null } = {}
+): Promise<HTMLCanvasElement | null> => {
     if (!payload || !psd) return null;
 
-    // Use targetBounds for geometry if available (to fix origin mismatch), fallback to metrics.target
-    const width = payload.targetBounds ? payload.targetBounds.w : payload.metrics.target.w;
-    const height = payload.targetBounds ? payload.targetBounds.h : payload.metrics.target.h;
-    
-    // Origin for normalization (Global -> Local conversion)
-    const originX = payload.targetBounds ? payload.targetBounds.x : 0;
-    const originY = payload.targetBounds ? payload.targetBounds.y : 0;
+    const job: CompositeJob = { ...buildCompositeJob(payload, options.debug), matte: options.matte };
 
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
+    const canvas = createCanvas(job.width, job.height);
     const ctx = canvas.getContext('2d');
     if (!ctx) return null;
 
-    // --- CLEAN ROOM SETUP ---
-    // 1. Enforce High Fidelity Smoothing
-    ctx.imageSmoothingEnabled = true;
-    ctx.imageSmoothingQuality = 'high';
-    
-    // 2. Reset Composition Logic
-    ctx.globalCompositeOperation = 'source-over';
-    ctx.globalAlpha = 1.0;
-
-    // 3. Absolute Clear (Transparent)
-    ctx.clearRect(0, 0, width, height);
-
-    // 4. "Safe Zone" Matte Fill - Solid Slate 900
-    // Forces the output image to match target dimensions and provides visual context
-    ctx.fillStyle = '#0f172a'; // Solid Slate 900
-    ctx.fillRect(0, 0, width, height);
-
-    console.log(`[COMPOSITOR] Starting render for ${payload.layers.length} root layers. Target: ${width}x${height}, Origin: ${originX},${originY}`);
-
     // Optional: Pre-load the generative preview if available to use as texture
     let genImage: HTMLImageElement | null = null;
     if (payload.previewUrl) {
@@ -457,116 +540,164 @@ export const compositePayloadToCanvas = async (payload: TransformedPayload, psd:
         }
     }
 
-    const drawLayers = async (layers: TransformedLayer[], depth = 0) => {
-        // CHANGED: Iterate Forward (0 to Length-1) to implement Bottom-to-Top Painter's Algorithm.
-        for (let i = 0; i < layers.length; i++) {
-            const layer = layers[i];
-            
-            // DIAGNOSTIC FORCE OPACITY
-            let effectiveOpacity = (typeof layer.opacity === 'number') ? layer.opacity : 1.0;
-            if (effectiveOpacity === 0) {
-                 effectiveOpacity = 1.0; 
-                 console.warn(`[COMPOSITOR] Layer ${layer.name} had 0 opacity. Forcing to 1.0 for debug.`);
-            }
-
-            console.log(`[LAYER] Depth:${depth} | Name: "${layer.name}" | Type: ${layer.type} | Opacity: ${effectiveOpacity.toFixed(2)} | Visible: ${layer.isVisible}`);
+    await renderCompositeJob(ctx, job, {
+        getLayerSource: (pathId) => findLayerByPath(psd, pathId)?.canvas || null,
+        getMaskSource: (pathId) => getLayerMaskAlpha(psd, pathId),
+        createBuffer: createCanvasBuffer,
+        previewImage: genImage && genImage.naturalWidth > 0 ? genImage : null
+    });
 
-            // Visibility Check
-            if (!layer.isVisible) {
-                console.log(`[LAYER] Skipping invisible layer: ${layer.name}`);
-                continue;
-            }
+    return canvas;
+};
 
-            // --- RECURSIVE GROUP HANDLING ---
-            if (layer.type === 'group' && layer.children) {
-                // RECURSION GUARD:
-                ctx.save();
-                await drawLayers(layer.children, depth + 1);
-                ctx.restore();
-                continue;
-            } 
-            
-            // --- LEAF LAYER HANDLING (Pixel / Generative) ---
-            // WRAP EVERY DRAW CALL IN SAVE/RESTORE FOR SANITATION
-            ctx.save();
-            
-            // 1. Reset Composite Mode per layer to prevent leaks
-            ctx.globalCompositeOperation = 'source-over';
-
-            // 2. STRICT ALPHA APPLICATION
-            const alpha = Math.max(0, Math.min(1, effectiveOpacity));
-            ctx.globalAlpha = alpha;
-
-            const { x, y, w: dw, h: dh } = layer.coords;
-            
-            // COORDINATE NORMALIZATION: Transform Global Coords -> Local Canvas Coords
-            const drawX = x - originX;
-            const drawY = y - originY;
-            
-            console.log(`[DRAW] "${layer.name}" at global x:${Math.round(x)}, y:${Math.round(y)} -> local x:${Math.round(drawX)}, y:${Math.round(drawY)}`);
-
-            // 3. DRAW: SURGICAL SWAP LOGIC
-            // If the layer is generative, we MUST bypass the original layer lookup entirely.
-            if (layer.type === 'generative') {
-                // Draw either the generated preview texture or a placeholder
-                if (genImage && payload.previewUrl) {
-                    try {
-                        ctx.drawImage(genImage, drawX, drawY, dw, dh);
-                    } catch (e) {
-                        drawGenerativePlaceholder(ctx, drawX, drawY, dw, dh);
-                    }
-                } else {
-                    drawGenerativePlaceholder(ctx, drawX, drawY, dw, dh);
-                }
-            } 
-            else {
-                // STANDARD LAYER: Lookup pixels in original binary
-                const sourceLayer = findLayerByPath(psd, layer.id);
-
-                if (sourceLayer && sourceLayer.canvas) {
-                    if (layer.transform && layer.transform.rotation) {
-                        const rot = (layer.transform.rotation * Math.PI) / 180;
-                        const cx = drawX + dw / 2;
-                        const cy = drawY + dh / 2;
-                        
-                        ctx.translate(cx, cy);
-                        ctx.rotate(rot);
-                        ctx.drawImage(sourceLayer.canvas, -dw / 2, -dh / 2, dw, dh);
-                    } else {
-                        // Direct Draw (Standard)
-                        ctx.drawImage(sourceLayer.canvas, drawX, drawY, dw, dh);
-                    }
-                } else {
-                    console.warn(`[COMPOSITOR] Source canvas missing for layer: ${layer.name} (ID: ${layer.id})`);
-                }
-            }
+/**
+ * Renders layers placed in document coordinates onto a transparent document-sized canvas
+ * (global layers of an export, identity-placed source layers).
+ *
+ * @param layers Layers whose coords are relative to the document origin.
+ * @param psd The original binary source providing pixel data.
+ * @param size Document dimensions.
+ */
+export const renderLayersToCanvas = async (
+    layers: TransformedLayer[],
+    psd: Psd,
+    size: { width: number, height: number }
+): Promise<HTMLCanvasElement | null> => {
+    const job: CompositeJob = { layers, width: size.width, height: size.height, originX: 0, originY: 0, matte: null };
+
+    const canvas = createCanvas(job.width, job.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
 
-            ctx.restore();
-        }
-    };
+    await renderCompositeJob(ctx, job, {
+        getLayerSource: (pathId) => findLayerByPath(psd, pathId)?.canvas || null,
+        getMaskSource: (pathId) => getLayerMaskAlpha(psd, pathId),
+        createBuffer: createCanvasBuffer
+    });
 
-    await drawLayers(payload.layers);
+    return canvas;
+};
 
+/**
+ * Composites a visual representation of the TransformedPayload (preview matte) as an image URL.
+ *
+ * @param payload The transformed geometry and logic instructions.
+ * @param psd The original binary source providing pixel data.
+ * @param debug Enables verbose per-layer logging.
+ * @returns A Promise resolving to a high-quality Data URL (image/png).
+ */
+export const compositePayloadToCanvas = async (payload: TransformedPayload, psd: Psd, debug = false): Promise<string | null> => {
+    const canvas = await renderPayloadToCanvas(payload, psd, { debug });
     // CRITICAL: Export as PNG to preserve transparency (JPEG forces black/white background)
-    return canvas.toDataURL('image/png');
+    return canvas ? canvas.toDataURL('image/png') : null;
 };
 
-// Helper for drawing consistent AI placeholders
-const drawGenerativePlaceholder = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number) => {
-    ctx.fillStyle = 'rgba(192, 132, 252, 0.3)'; // Purple tint
-    ctx.strokeStyle = 'rgba(192, 132, 252, 0.8)';
-    ctx.lineWidth = 1;
-    ctx.fillRect(x, y, w, h);
-    ctx.strokeRect(x, y, w, h);
-    
-    // Label
-    ctx.fillStyle = '#e9d5ff';
-    ctx.font = '10px monospace';
-    ctx.fillText('AI GEN', x + 4, y + 12);
+// Main-thread buffer allocator for isolated compositing (masks, clipping stacks)
+const createCanvasBuffer = (width: number, height: number): CompositeBuffer | null => {
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    return ctx ? { canvas, ctx } : null;
 };
 
+// Mask alpha conversions are memoized per PSD binary and layer path (null = no usable mask).
+const maskAlphaCache = new WeakMap<Psd, Map<string, HTMLCanvasElement | null>>();
+
 /**
- * Scans a canvas context to find the bounding box of non-transparent pixels.
+ * Converts a layer's raster mask into an alpha image usable with 'destination-in'.
+ * ag-psd decodes masks as opaque grayscale; the gray value becomes the alpha channel.
+ * The returned canvas has the mask's own dimensions (see SerializableLayer.mask for its position).
+ *
+ * @param psd The raw parsed PSD object.
+ * @param pathId The dot-separated index path (e.g., "0.3.1").
+ */
+export const getLayerMaskAlpha = (psd: Psd, pathId: string): HTMLCanvasElement | null => {
+    let psdCache = maskAlphaCache.get(psd);
+    if (!psdCache) {
+        psdCache = new Map();
+        maskAlphaCache.set(psd, psdCache);
+    }
+    if (psdCache.has(pathId)) return psdCache.get(pathId)!;
+
+    let result: HTMLCanvasElement | null = null;
+    const mask = findLayerByPath(psd, pathId)?.mask;
+    const source = mask?.canvas as HTMLCanvasElement | undefined;
+    if (mask && !mask.disabled && source && source.width > 0 && source.height > 0) {
+        const sourceCtx = source.getContext('2d');
+        const buffer = createCanvasBuffer(source.width, source.height);
+        if (sourceCtx && buffer) {
+            const imageData = sourceCtx.getImageData(0, 0, source.width, source.height);
+            const data = imageData.data;
+            for (let i = 0; i < data.length; i += 4) {
+                data[i + 3] = data[i];
+                data[i] = data[i + 1] = data[i + 2] = 255;
+            }
+            buffer.ctx.putImageData(imageData, 0, 0);
+            result = buffer.canvas as HTMLCanvasElement;
+        }
+    }
+
+    psdCache.set(pathId, result);
+    return result;
+};
+
+export interface CompositeFidelityReport {
+    width: number;
+    height: number;
+    meanAbsoluteError: number; // Mean per-channel difference (0-255, RGBA)
+    mismatchRatio: number; // Share of pixels where any channel differs by more than the tolerance
+}
+
+/**
+ * Renders the full document through the preview compositor (identity transform, transparent matte)
+ * and compares it against the composite image embedded in the PSD.
+ * Diagnoses blend / clipping / mask fidelity: a faithful compositor scores a near-zero error.
+ *
+ * @param psd The raw parsed PSD object (must carry its embedded composite, psd.canvas).
+ * @param tolerance Per-channel difference below which a pixel counts as matching.
+ * @returns The comparison report, or null when the PSD has no embedded composite.
+ */
+export const measureCompositeFidelity = async (psd: Psd, tolerance = 8): Promise<CompositeFidelityReport | null> => {
+    const reference = psd.canvas as HTMLCanvasElement | undefined;
+    const referenceCtx = reference?.getContext('2d');
+    if (!reference || !referenceCtx || !psd.children) return null;
+
+    const identity = (layers: SerializableLayer[]): TransformedLayer[] => layers.map(layer => ({
+        ...layer,
+        transform: { scaleX: 1, scaleY: 1, offsetX: 0, offsetY: 0 },
+        children: layer.children ? identity(layer.children) : undefined
+    }));
+
+    const { width, height } = psd;
+    const output = await renderLayersToCanvas(identity(getCleanLayerTree(psd.children)), psd, { width, height });
+    const outputCtx = output?.getContext('2d');
+    if (!outputCtx) return null;
+
+    const actual = outputCtx.getImageData(0, 0, width, height).data;
+    const expected = referenceCtx.getImageData(0, 0, width, height).data;
+    let totalError = 0;
+    let mismatched = 0;
+    for (let i = 0; i < actual.length; i += 4) {
+        let worst = 0;
+        for (let c = 0; c < 4; c++) {
+            const diff = Math.abs(actual[i + c] - expected[i + c]);
+            totalError += diff;
+            if (diff > worst) worst = diff;
+        }
+        if (worst > tolerance) mismatched++;
+    }
+    const pixelCount = actual.length / 4;
+
+    return {
+        width,
+        height,
+        meanAbsoluteError: pixelCount > 0 ? totalError / actual.length : 0,
+        mismatchRatio: pixelCount > 0 ? mismatched / pixelCount : 0
+    };
+};
+
+/**
+ * Scans a canvas context to find the bounding box of non-transparent pixels
+ * and the alpha-weighted visual center.
  * Returns an OpticalMetrics object or null if the layer is empty/transparent.
  * Used for precise visual alignment (ignores transparent padding).
  * 
@@ -582,6 +713,8 @@ export const getOpticalBounds = (ctx: CanvasRenderingContext2D, w: number, h: nu
     const data = imgData.data;
     let minX = w, minY = h, maxX = 0, maxY = 0, found = false;
     let nonTransparentPixels = 0;
+    // Alpha-weighted centroid accumulators (visual center of mass)
+    let alphaSum = 0, alphaX = 0, alphaY = 0;
 
     // Scan alpha channel (every 4th byte)
     for (let y = 0; y < h; y++) {
@@ -595,6 +728,9 @@ export const getOpticalBounds = (ctx: CanvasRenderingContext2D, w: number, h: nu
                 if (y > maxY) maxY = y;
                 found = true;
                 nonTransparentPixels++;
+                alphaSum += alpha;
+                alphaX += (x + 0.5) * alpha;
+                alphaY += (y + 0.5) * alpha;
             }
         }
     }
@@ -605,32 +741,101 @@ export const getOpticalBounds = (ctx: CanvasRenderingContext2D, w: number, h: nu
 
     return { 
         bounds: { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 },
-        visualCenter: { x: minX + (maxX - minX + 1) / 2, y: minY + (maxY - minY + 1) / 2 },
+        visualCenter: { x: alphaX / alphaSum, y: alphaY / alphaSum },
         pixelDensity: density
     };
 };
 
+// Optical scans are expensive (full alpha read-back), so results are memoized per PSD binary and layer path.
+const opticalCache = new WeakMap<Psd, Map<string, OpticalMetrics | null>>();
+
+/**
+ * Returns the OpticalMetrics of a pixel layer, addressed by its deterministic path ID.
+ * Bounds are relative to the layer's own top-left corner (same space as getOpticalBounds).
+ * Results are cached per PSD binary and layer path; groups and layers without pixels return null.
+ *
+ * @param psd The raw parsed PSD object.
+ * @param pathId The dot-separated index path (e.g., "0.3.1").
+ */
+export const getLayerOpticalMetrics = (psd: Psd, pathId: string): OpticalMetrics | null => {
+    let psdCache = opticalCache.get(psd);
+    if (!psdCache) {
+        psdCache = new Map();
+        opticalCache.set(psd, psdCache);
+    }
+    if (psdCache.has(pathId)) return psdCache.get(pathId)!;
+
+    let metrics: OpticalMetrics | null = null;
+    const layer = findLayerByPath(psd, pathId);
+    const canvas = layer?.canvas as HTMLCanvasElement | undefined;
+    if (layer && !layer.children && canvas) {
+        const ctx = canvas.getContext('2d');
+        if (ctx) metrics = getOpticalBounds(ctx, canvas.width, canvas.height);
+    }
+
+    psdCache.set(pathId, metrics);
+    return metrics;
+};
+
+/**
+ * Collects OpticalMetrics for every pixel layer in a SerializableLayer tree.
+ * @returns A record keyed by layer path ID (layers without visible pixels are omitted).
+ */
+export const collectOpticalMetrics = (psd: Psd, layers: SerializableLayer[]): Record<string, OpticalMetrics> => {
+    const result: Record<string, OpticalMetrics> = {};
+    const traverse = (nodes: SerializableLayer[]) => {
+        nodes.forEach(node => {
+            if (node.children) {
+                traverse(node.children);
+                return;
+            }
+            const metrics = getLayerOpticalMetrics(psd, node.id);
+            if (metrics) result[node.id] = metrics;
+        });
+    };
+    traverse(layers);
+    return result;
+};
+
+/**
+ * Triggers a browser download of a Blob.
+ *
+ * @param blob The file contents.
+ * @param filename The name of the file to download.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Encodes a PSD object to its binary form (no thumbnail unless requested).
+ *
+ * @param psd The PSD object to write.
+ * @param options Extra ag-psd write options.
+ */
+export const encodePsd = (psd: Psd, options: WriteOptions = {}): Uint8Array =>
+  new Uint8Array(writePsd(psd, { generateThumbnail: false, ...options }));
+
 /**
  * Writes a PSD object to a file and triggers a browser download.
  * 
  * @param psd The PSD object to write.
  * @param filename The name of the file to download.
+ * @param options Extra ag-psd write options (e.g. invalidateTextLayers for re-targeted text).
  */
-export const writePsdFile = async (psd: Psd, filename: string) => {
+export const writePsdFile = async (psd: Psd, filename: string, options: WriteOptions = {}) => {
   try {
     // writePsd returns an ArrayBuffer or Buffer depending on environment. In browser, ArrayBuffer.
-    const buffer = writePsd(psd, { generateThumbnail: false });
-    
-    const blob = new Blob([buffer], { type: 'application/octet-stream' });
-    const url = URL.createObjectURL(blob);
-    
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    const buffer = encodePsd(psd, options);
+
+    downloadBlob(new Blob([buffer as BlobPart], { type: 'application/octet-stream' }), filename);
   } catch (err) {
     console.error("Error writing PSD file:", err);
     throw new Error("Failed to construct PSD binary.");
@@ -0,0 +1,210 @@
+import { Psd } from 'ag-psd';
+import { TransformedLayer, TransformedPayload } from '../types';
+import { renderPayloadToCanvas, renderLayersToCanvas, createCanvas } from './psdService';
+import type { AssembledExport } from './exportStructureService';
+
+export type RasterFormat = 'png' | 'jpeg' | 'webp';
+
+export const RASTER_MIME_TYPES: Record<RasterFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp'
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp'
+};
+
+// Formats without alpha are flattened onto this background
+const OPAQUE_BACKGROUND = '#ffffff';
+
+export interface RasterExportOptions {
+  format: RasterFormat;
+  quality: number; // 0-1, JPEG / WebP only
+}
+
+export interface RasterArtifact {
+  filename: string;
+  blob: Blob;
+  mimeType: string; // Actual encoded type (browsers without WebP encoding fall back to PNG)
+  width: number;
+  height: number;
+  scope: 'canvas' | 'container';
+  containerName?: string;
+}
+
+// One rendered container: its payload, the binary providing its pixels and its placement on the target canvas
+export interface RasterSource {
+  containerName: string;
+  payload: TransformedPayload;
+  psd: Psd;
+}
+
+const toSafeFileName = (name: string): string => name.replace(/^!+/, '').replace(/[^a-zA-Z0-9_-]+/g, '_') || 'container';
+
+// Reserves a base name, suffixing _2, _3, ... when it is already taken (case-insensitive file systems included)
+const reserveName = (name: string, taken: Set<string>): string => {
+  let candidate = name;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) candidate = `${name}_${n}`;
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * Encodes a canvas to a Blob. JPEG output is flattened onto an opaque background first.
+ */
+export const encodeCanvas = (canvas: HTMLCanvasElement, options: RasterExportOptions): Promise<Blob> => {
+  let source = canvas;
+  if (options.format === 'jpeg') {
+    source = createCanvas(canvas.width, canvas.height);
+    const ctx = source.getContext('2d');
+    if (ctx) {
+      ctx.fillStyle = OPAQUE_BACKGROUND;
+      ctx.fillRect(0, 0, source.width, source.height);
+      ctx.drawImage(canvas, 0, 0);
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    source.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error(`Failed to encode ${options.format.toUpperCase()} output.`)),
+      RASTER_MIME_TYPES[options.format],
+      options.format === 'png' ? undefined : Math.max(0, Math.min(1, options.quality))
+    );
+  });
+};
+
+const toArtifact = async (
+  canvas: HTMLCanvasElement,
+  options: RasterExportOptions,
+  baseName: string,
+  scope: RasterArtifact['scope'],
+  containerName?: string
+): Promise<RasterArtifact> => {
+  const blob = await encodeCanvas(canvas, options);
+  const mimeType = blob.type || RASTER_MIME_TYPES[options.format];
+  if (mimeType !== RASTER_MIME_TYPES[options.format]) {
+    console.warn(`[RasterExport] ${options.format.toUpperCase()} encoding unsupported, browser produced ${mimeType}.`);
+  }
+  return {
+    filename: `${baseName}.${EXTENSIONS[mimeType] || options.format}`,
+    blob,
+    mimeType,
+    width: canvas.width,
+    height: canvas.height,
+    scope,
+    containerName
+  };
+};
+
+export interface RenderedContainer {
+  source: RasterSource;
+  canvas: HTMLCanvasElement;
+}
+
+/**
+ * Renders each filled container through the preview compositor with a transparent matte.
+ */
+export const renderContainers = async (sources: RasterSource[]): Promise<RenderedContainer[]> => {
+  const rendered: RenderedContainer[] = [];
+  for (const source of sources) {
+    const canvas = await renderPayloadToCanvas(source.payload, source.psd, { matte: null });
+    if (canvas) rendered.push({ source, canvas });
+  }
+  return rendered;
+};
+
+/**
+ * Places rendered containers at their target bounds on a full-document canvas (transparent elsewhere).
+ * With the export's global layers, the result is the document's merged composite:
+ * the layers planned below the containers, the containers, then the layers planned above them.
+ *
+ * @param rendered The rendered containers.
+ * @param canvasSize Target document dimensions.
+ * @param globalLayers Global layers of the assembled export (assembleExportPsd).
+ */
+export const composeCanvas = async (
+  rendered: RenderedContainer[],
+  canvasSize: { width: number, height: number },
+  globalLayers: AssembledExport['globalLayers'] = null
+): Promise<HTMLCanvasElement> => {
+  const canvas = createCanvas(canvasSize.width, canvasSize.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable.');
+
+  const drawGlobalLayers = async (layers: TransformedLayer[]) => {
+    if (!globalLayers || layers.length === 0) return;
+    const layerCanvas = await renderLayersToCanvas(layers, globalLayers.psd, canvasSize);
+    if (layerCanvas) ctx.drawImage(layerCanvas, 0, 0);
+  };
+
+  await drawGlobalLayers(globalLayers?.below ?? []);
+  rendered.forEach(({ source, canvas: containerCanvas }) => {
+    const bounds = source.payload.targetBounds;
+    ctx.drawImage(containerCanvas, bounds ? bounds.x : 0, bounds ? bounds.y : 0);
+  });
+  await drawGlobalLayers(globalLayers?.above ?? []);
+  return canvas;
+};
+
+/**
+ * Encodes an already rendered canvas composite and its containers.
+ *
+ * Container names that collide with the canvas artifact or with each other once sanitized get a numeric suffix.
+ *
+ * @returns The canvas artifact first, then one artifact per container.
+ */
+export const encodeRasters = async (
+  rendered: RenderedContainer[],
+  composite: HTMLCanvasElement,
+  options: RasterExportOptions,
+  prefix: string
+): Promise<RasterArtifact[]> => {
+  const taken = new Set<string>();
+  const artifacts = [await toArtifact(composite, options, reserveName(`${prefix}_canvas`, taken), 'canvas')];
+  for (const { source, canvas } of rendered) {
+    const baseName = reserveName(`${prefix}_${toSafeFileName(source.containerName)}`, taken);
+    artifacts.push(await toArtifact(canvas, options, baseName, 'container', source.containerName));
+  }
+
+  // Downloads and bundle entries are keyed by file name: never hand out the same one twice
+  const filenames = new Set<string>();
+  artifacts.forEach(({ filename }) => {
+    if (filenames.has(filename.toLowerCase())) throw new Error(`Duplicate raster file name '${filename}'.`);
+    filenames.add(filename.toLowerCase());
+  });
+  return artifacts;
+};
+
+/**
+ * Renders every container individually plus the full target canvas (containers placed at their bounds)
+ * through the preview compositor, with a transparent matte.
+ *
+ * @param sources The filled containers.
+ * @param canvasSize Target document dimensions.
+ * @param options Output format and quality.
+ * @param prefix File name prefix shared by all artifacts.
+ * @param globalLayers Global layers drawn around the containers on the canvas artifact (resolveGlobalLayers).
+ * @returns The canvas artifact first, then one artifact per container.
+ */
+export const exportRasters = async (
+  sources: RasterSource[],
+  canvasSize: { width: number, height: number },
+  options: RasterExportOptions,
+  prefix: string,
+  globalLayers: AssembledExport['globalLayers'] = null
+): Promise<RasterArtifact[]> => {
+  const rendered = await renderContainers(sources);
+  return encodeRasters(rendered, await composeCanvas(rendered, canvasSize, globalLayers), options, prefix);
+};
+
+/**
+ * Human readable file size (ad network weight limits are expressed in KB).
+ */
+export const formatByteSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
@@ -0,0 +1,659 @@
+import { MappingContext, ContainerDefinition, RemapperConfig, RemapStrategy, SerializableLayer, TransformedLayer, TransformedPayload, LayoutStrategy, LayerOverride, FeedbackStrategy, OpticalMetrics } from '../types';
+import { measureVisualBox, enforcePhysicsRules } from './physicsService';
+
+export const DEFAULT_REMAP_STRATEGY: RemapStrategy = 'UNIFORM_FIT';
+
+export interface RemapOptions {
+  /**
+   * Node ID owning the raw PSD binary (the LoadPSD node).
+   * Downstream compositors and the exporter use it to look up pixel data in the psdRegistry.
+   */
+  sourceNodeId: string;
+  /**
+   * Reviewer feedback registered against this Remapper output (feedbackRegistry).
+   * Committed overrides are applied on top of the AI strategy overrides.
+   */
+  feedback?: FeedbackStrategy | null;
+  /**
+   * Optical (visible pixel) metrics keyed by layer path ID, relative to each layer's own bounds.
+   * Used by the distribution modes to space items by what is visually there, not by padded canvases.
+   */
+  opticalMetrics?: Record<string, OpticalMetrics>;
+}
+
+// Internal geometric frame describing how source coordinates map into the target container.
+interface RemapFrame {
+  sourceX: number;
+  sourceY: number;
+  originX: number;
+  originY: number;
+  scaleX: number;
+  scaleY: number;
+}
+
+// Override and frame lookup shared by the recursive transform pass.
+interface OverrideIndex {
+  byLayerId: Map<string, LayerOverride>;
+  // Optical metrics attached to transformed layers for downstream inspection
+  optical?: Record<string, OpticalMetrics>;
+  // Layers whose override pins position/scale (see collectPinnedLayerIds)
+  pinned: Set<string>;
+  // Per-layer frames resolved by distribution and the semantic physics solver
+  frames: Map<string, RemapFrame>;
+  // Container origin the override offsets are relative to (target bounds x/y)
+  originX: number;
+  originY: number;
+  // Global scale the override individualScale multiplies
+  scaleFactor: number;
+}
+
+/**
+ * Computes the axis scales for a given remap strategy.
+ * - STRETCH: Independent axis scaling (aspect ratio is not preserved).
+ * - UNIFORM_FIT: Largest uniform scale where the content still fits inside the target.
+ * - UNIFORM_FILL: Smallest uniform scale where the content covers the whole target.
+ * - NONE: Identity.
+ *
+ * @param strategy The remap strategy.
+ * @param source Dimensions of the source container.
+ * @param target Dimensions of the target container.
+ */
+export const computeStrategyScale = (
+  strategy: RemapStrategy,
+  source: { w: number, h: number },
+  target: { w: number, h: number }
+): { scaleX: number, scaleY: number } => {
+  // Degenerate geometry cannot be scaled meaningfully, fall back to identity.
+  if (source.w <= 0 || source.h <= 0 || target.w <= 0 || target.h <= 0) {
+    return { scaleX: 1, scaleY: 1 };
+  }
+
+  const ratioX = target.w / source.w;
+  const ratioY = target.h / source.h;
+
+  switch (strategy) {
+    case 'STRETCH':
+      return { scaleX: ratioX, scaleY: ratioY };
+    case 'UNIFORM_FILL': {
+      const s = Math.max(ratioX, ratioY);
+      return { scaleX: s, scaleY: s };
+    }
+    case 'NONE':
+      return { scaleX: 1, scaleY: 1 };
+    case 'UNIFORM_FIT':
+    default: {
+      const s = Math.min(ratioX, ratioY);
+      return { scaleX: s, scaleY: s };
+    }
+  }
+};
+
+/**
+ * Resolves the effective axis scales for a container.
+ * An AI strategy takes precedence over the Remapper's strategy:
+ * - anchor 'STRETCH' forces independent axis scaling to the target bounds.
+ * - a valid suggestedScale replaces the strategy-computed uniform scale.
+ */
+const resolveScale = (
+  strategy: RemapStrategy,
+  aiStrategy: LayoutStrategy | undefined,
+  source: { w: number, h: number },
+  target: { w: number, h: number }
+): { scaleX: number, scaleY: number } => {
+  if (aiStrategy?.anchor === 'STRETCH') {
+    return computeStrategyScale('STRETCH', source, target);
+  }
+
+  const suggested = aiStrategy?.suggestedScale;
+  if (typeof suggested === 'number' && Number.isFinite(suggested) && suggested > 0) {
+    return { scaleX: suggested, scaleY: suggested };
+  }
+
+  return computeStrategyScale(strategy, source, target);
+};
+
+/**
+ * Positions the scaled content block inside the target bounds.
+ * Horizontal placement is always centered; vertical placement follows the anchor
+ * (TOP / BOTTOM hug the respective edge, CENTER and STRETCH center the block).
+ * With a pivot (optical mode: the visual center, relative to the scaled block), centering puts
+ * the pivot on the target center instead of the block's box center, as far as the block still fits.
+ */
+const resolveBlockOrigin = (
+  anchor: LayoutStrategy['anchor'] | undefined,
+  block: { w: number, h: number },
+  target: { x: number, y: number, w: number, h: number },
+  pivot?: { x: number, y: number }
+): { x: number, y: number } => {
+  // Centers the pivot on the axis; clamped so a block that fits stays inside the target
+  const center = (start: number, size: number, blockSize: number, pivotOffset: number | undefined) => {
+    const boxCentered = start + (size - blockSize) / 2;
+    if (pivotOffset === undefined) return boxCentered;
+    const pivotCentered = start + size / 2 - pivotOffset;
+    return blockSize <= size ? Math.min(start + size - blockSize, Math.max(start, pivotCentered)) : pivotCentered;
+  };
+
+  const x = center(target.x, target.w, block.w, pivot?.x);
+
+  switch (anchor) {
+    case 'TOP':
+      return { x, y: target.y };
+    case 'BOTTOM':
+      return { x, y: target.y + target.h - block.h };
+    case 'CENTER':
+    case 'STRETCH':
+    default:
+      return { x, y: center(target.y, target.h, block.h, pivot?.y) };
+  }
+};
+
+/**
+ * Area-weighted visual center of a container's visible content (global source coordinates).
+ * Pixel layers contribute their alpha-weighted OpticalMetrics.visualCenter, weighted by their
+ * opaque area; layers without metrics (text, shapes) contribute their box center and area.
+ * @returns null when nothing visible can be measured.
+ */
+const measureVisualCenter = (layers: SerializableLayer[], optical: Record<string, OpticalMetrics> | undefined): { x: number, y: number } | null => {
+  let mass = 0, sumX = 0, sumY = 0;
+  const visit = (nodes: SerializableLayer[]) => nodes.forEach(layer => {
+    if (!layer.isVisible) return;
+    if (layer.children && layer.children.length > 0) {
+      visit(layer.children);
+      return;
+    }
+    const metrics = optical?.[layer.id];
+    if (metrics && metrics.bounds.w > 0 && metrics.bounds.h > 0) {
+      const area = metrics.pixelDensity * layer.coords.w * layer.coords.h || metrics.bounds.w * metrics.bounds.h;
+      mass += area;
+      sumX += (layer.coords.x + metrics.visualCenter.x) * area;
+      sumY += (layer.coords.y + metrics.visualCenter.y) * area;
+      return;
+    }
+    const box = measureVisualBox(layer, optical);
+    if (!box || box.w <= 0 || box.h <= 0) return;
+    const area = box.w * box.h;
+    mass += area;
+    sumX += (box.x + box.w / 2) * area;
+    sumY += (box.y + box.h / 2) * area;
+  });
+  visit(layers);
+  return mass > 0 ? { x: sumX / mass, y: sumY / mass } : null;
+};
+
+/**
+ * Measures the optical content box of a container: the union of its visible layers'
+ * optical boxes. Transparent padding in layer canvases no longer inflates the block,
+ * so fit / fill scale to what is visible.
+ * @returns null when nothing visible can be measured (caller falls back to container bounds).
+ */
+const measureContentBox = (layers: SerializableLayer[], optical: Record<string, OpticalMetrics> | undefined): Box | null => {
+  const boxes = layers
+    .filter(layer => layer.isVisible)
+    .map(layer => measureVisualBox(layer, optical))
+    .filter((box): box is Box => !!box && box.w > 0 && box.h > 0);
+  if (boxes.length === 0) return null;
+  const minX = Math.min(...boxes.map(b => b.x));
+  const minY = Math.min(...boxes.map(b => b.y));
+  return {
+    x: minX,
+    y: minY,
+    w: Math.max(...boxes.map(b => b.x + b.w)) - minX,
+    h: Math.max(...boxes.map(b => b.y + b.h)) - minY
+  };
+};
+
+/**
+ * Merges override sources into a single lookup keyed by layer path ID.
+ * AI strategy overrides are the base; committed reviewer feedback wins per field,
+ * so semantic hints (layoutRole, linkedAnchorId) from the Analyst survive a Reviewer nudge.
+ */
+export const mergeLayerOverrides = (
+  aiOverrides: LayerOverride[] | undefined,
+  feedback: FeedbackStrategy | null | undefined
+): Map<string, LayerOverride> => {
+  const merged = new Map<string, LayerOverride>();
+  const apply = (overrides: LayerOverride[] | undefined) => {
+    overrides?.forEach(override => {
+      if (!override || typeof override.layerId !== 'string') return;
+      const previous = merged.get(override.layerId);
+      merged.set(override.layerId, previous ? { ...previous, ...override } : override);
+    });
+  };
+
+  apply(aiOverrides);
+  if (feedback && feedback.isCommitted !== false) {
+    apply(feedback.overrides);
+  }
+  return merged;
+};
+
+/**
+ * Determines which overrides pin a layer's geometry.
+ * Committed reviewer feedback always pins (the Reviewer verifies exact offsets).
+ * AI overrides pin only when they carry no layoutRole: a role-tagged AI override is a
+ * semantic hint, and the physics solver owns the geometry of that layer.
+ */
+const collectPinnedLayerIds = (
+  aiOverrides: LayerOverride[] | undefined,
+  feedback: FeedbackStrategy | null | undefined
+): Set<string> => {
+  const pinned = new Set<string>();
+  aiOverrides?.forEach(override => {
+    if (override && typeof override.layerId === 'string' && !override.layoutRole) pinned.add(override.layerId);
+  });
+  if (feedback && feedback.isCommitted !== false) {
+    feedback.overrides?.forEach(override => {
+      if (override && typeof override.layerId === 'string') pinned.add(override.layerId);
+    });
+  }
+  return pinned;
+};
+
+// --- DISTRIBUTION (LayoutStrategy.layoutMode) ---
+
+type Box = { x: number, y: number, w: number, h: number };
+type LayoutMode = NonNullable<LayoutStrategy['layoutMode']>;
+
+/**
+ * Selects the top-level layers re-flowed by a distribution mode.
+ * Layers explicitly tagged `layoutRole: 'flow'` win; when the strategy tags none,
+ * every visible untagged layer is treated as a flow item.
+ */
+const selectFlowLayers = (layers: SerializableLayer[], overrides: Map<string, LayerOverride>): SerializableLayer[] => {
+  const visible = layers.filter(layer => layer.isVisible);
+  const tagged = visible.filter(layer => overrides.get(layer.id)?.layoutRole === 'flow');
+  if (tagged.length > 0) return tagged;
+  return visible.filter(layer => !overrides.get(layer.id)?.layoutRole);
+};
+
+/**
+ * Computes the largest uniform scale at which every item fits its cell.
+ * Items share one scale so a row of symbols keeps its relative proportions.
+ */
+const computeCellScale = (boxes: Box[], cell: { w: number, h: number }): number => {
+  return Math.min(...boxes.map(box => Math.min(cell.w / box.w, cell.h / box.h)));
+};
+
+/**
+ * Re-flows 'flow' layers into evenly spaced rows, columns or a grid inside the target bounds.
+ * - DISTRIBUTE_HORIZONTAL: one row, items ordered left to right by their source position.
+ * - DISTRIBUTE_VERTICAL: one column, items ordered top to bottom.
+ * - GRID: the column count that yields the largest common item scale, filled in reading order.
+ * Each item's optical center is placed on its cell center.
+ *
+ * @returns A frame per distributed top-level layer ID; layers absent from the map keep the block frame.
+ */
+const computeDistributionFrames = (
+  layers: SerializableLayer[],
+  mode: LayoutMode,
+  target: Box,
+  overrides: Map<string, LayerOverride>,
+  optical: Record<string, OpticalMetrics> | undefined
+): Map<string, RemapFrame> => {
+  const frames = new Map<string, RemapFrame>();
+  if (mode === 'STANDARD' || target.w <= 0 || target.h <= 0) return frames;
+
+  const items = selectFlowLayers(layers, overrides)
+    .map(layer => ({ layer, box: measureVisualBox(layer, optical) }))
+    .filter((item): item is { layer: SerializableLayer, box: Box } => !!item.box && item.box.w > 0 && item.box.h > 0);
+  if (items.length === 0) return frames;
+
+  const centerX = (box: Box) => box.x + box.w / 2;
+  const centerY = (box: Box) => box.y + box.h / 2;
+  const boxes = items.map(item => item.box);
+
+  let cols: number;
+  if (mode === 'DISTRIBUTE_HORIZONTAL') {
+    cols = items.length;
+    items.sort((a, b) => centerX(a.box) - centerX(b.box) || a.layer.id.localeCompare(b.layer.id));
+  } else if (mode === 'DISTRIBUTE_VERTICAL') {
+    cols = 1;
+    items.sort((a, b) => centerY(a.box) - centerY(b.box) || a.layer.id.localeCompare(b.layer.id));
+  } else {
+    cols = 1;
+    let bestScale = -Infinity;
+    for (let c = 1; c <= items.length; c++) {
+      const r = Math.ceil(items.length / c);
+      const candidate = computeCellScale(boxes, { w: target.w / c, h: target.h / r });
+      if (candidate > bestScale) {
+        bestScale = candidate;
+        cols = c;
+      }
+    }
+    items.sort((a, b) => centerY(a.box) - centerY(b.box) || centerX(a.box) - centerX(b.box) || a.layer.id.localeCompare(b.layer.id));
+  }
+
+  const rows = Math.ceil(items.length / cols);
+  const cell = { w: target.w / cols, h: target.h / rows };
+  const scale = computeCellScale(boxes, cell);
+
+  items.forEach(({ layer, box }, i) => {
+    const col = i % cols;
+    const row = Math.floor(i / cols);
+    const cellCenterX = target.x + cell.w * (col + 0.5);
+    const cellCenterY = target.y + cell.h * (row + 0.5);
+    // Place the optical center (not the layer canvas center) on the cell center
+    frames.set(layer.id, {
+      sourceX: centerX(box),
+      sourceY: centerY(box),
+      originX: cellCenterX,
+      originY: cellCenterY,
+      scaleX: scale,
+      scaleY: scale
+    });
+  });
+
+  return frames;
+};
+
+// --- SEMANTIC PHYSICS (layoutRole / linkedAnchorId) ---
+
+const flattenLayers = <T extends SerializableLayer>(layers: T[], into = new Map<string, T>()): Map<string, T> => {
+  layers.forEach(layer => {
+    into.set(layer.id, layer);
+    if (layer.children) flattenLayers(layer.children as T[], into);
+  });
+  return into;
+};
+
+/**
+ * Resolves frames for 'background' and 'static' layers (at any depth).
+ * - background: covers the target bounds with fill semantics (max axis ratio, centered).
+ * - static: keeps its normalized position; the visual center lands on the same relative
+ *   point of the target container, at the global uniform scale.
+ * Pinned layers are skipped; their override already dictates the geometry.
+ */
+const computeRoleFrames = (
+  layers: SerializableLayer[],
+  source: Box,
+  target: Box,
+  index: OverrideIndex,
+  optical: Record<string, OpticalMetrics> | undefined
+): Map<string, RemapFrame> => {
+  const frames = new Map<string, RemapFrame>();
+  if (source.w <= 0 || source.h <= 0) return frames;
+
+  flattenLayers(layers).forEach(layer => {
+    if (index.pinned.has(layer.id)) return;
+    const role = index.byLayerId.get(layer.id)?.layoutRole;
+    if (role !== 'background' && role !== 'static') return;
+
+    const box = measureVisualBox(layer, optical);
+    if (!box || box.w <= 0 || box.h <= 0) return;
+    const centerX = box.x + box.w / 2;
+    const centerY = box.y + box.h / 2;
+
+    if (role === 'background') {
+      const scale = Math.max(target.w / box.w, target.h / box.h);
+      frames.set(layer.id, {
+        sourceX: centerX,
+        sourceY: centerY,
+        originX: target.x + target.w / 2,
+        originY: target.y + target.h / 2,
+        scaleX: scale,
+        scaleY: scale
+      });
+      return;
+    }
+
+    frames.set(layer.id, {
+      sourceX: centerX,
+      sourceY: centerY,
+      originX: target.x + ((centerX - source.x) / source.w) * target.w,
+      originY: target.y + ((centerY - source.y) / source.h) * target.h,
+      scaleX: index.scaleFactor,
+      scaleY: index.scaleFactor
+    });
+  });
+
+  return frames;
+};
+
+/**
+ * Orders unpinned 'overlay' layers so every overlay is resolved after its anchor
+ * (overlays can anchor to other overlays). Overlays with a missing anchor or
+ * caught in an anchor cycle are dropped and simply ride their parent frame.
+ * @returns Overlay IDs grouped by anchor-chain depth.
+ */
+const orderOverlays = (sourceIndex: Map<string, SerializableLayer>, index: OverrideIndex): string[][] => {
+  const anchorOf = new Map<string, string>();
+  index.byLayerId.forEach((override, layerId) => {
+    if (override.layoutRole !== 'overlay' || !override.linkedAnchorId || index.pinned.has(layerId)) return;
+    if (!sourceIndex.has(layerId) || !sourceIndex.has(override.linkedAnchorId)) return;
+    anchorOf.set(layerId, override.linkedAnchorId);
+  });
+
+  const depths = new Map<string, number>();
+  const resolveDepth = (layerId: string, visiting: Set<string>): number => {
+    if (depths.has(layerId)) return depths.get(layerId)!;
+    const anchorId = anchorOf.get(layerId);
+    if (!anchorId) return -1;
+    if (visiting.has(layerId)) return NaN;
+    visiting.add(layerId);
+    const depth = resolveDepth(anchorId, visiting) + 1;
+    depths.set(layerId, depth);
+    return depth;
+  };
+
+  const levels: string[][] = [];
+  anchorOf.forEach((_, layerId) => {
+    const depth = resolveDepth(layerId, new Set());
+    if (!Number.isFinite(depth)) return;
+    (levels[depth] = levels[depth] || []).push(layerId);
+  });
+  return levels.filter(Boolean);
+};
+
+/**
+ * Derives the frame that keeps an overlay's relative offset to its anchor:
+ * the anchor's source position maps onto its transformed position at the anchor's scale,
+ * so the overlay follows the anchor through any move or scale.
+ */
+const deriveAnchorFrame = (anchorSource: SerializableLayer, anchorResult: TransformedLayer): RemapFrame => ({
+  sourceX: anchorSource.coords.x,
+  sourceY: anchorSource.coords.y,
+  originX: anchorResult.coords.x,
+  originY: anchorResult.coords.y,
+  scaleX: anchorResult.transform.scaleX,
+  scaleY: anchorResult.transform.scaleY
+});
+
+/**
+ * Recursively projects a layer (and its children) through the remap frame.
+ * `transform.offsetX/offsetY` record the translation from the original global
+ * position to the new global position, so the exporter can trace the delta.
+ *
+ * A layer with its own resolved frame (distribution / physics) uses it instead of the inherited one.
+ * A pinning LayerOverride places the layer at `origin + (xOffset, yOffset)` with a
+ * uniform scale of `scaleFactor * individualScale` (the contract verified by the
+ * Reviewer's checkSynchronization). Children of an overridden group follow it.
+ */
+const transformLayer = (layer: SerializableLayer, inherited: RemapFrame, index: OverrideIndex): TransformedLayer => {
+  const frame = index.frames.get(layer.id) || inherited;
+  let x = frame.originX + (layer.coords.x - frame.sourceX) * frame.scaleX;
+  let y = frame.originY + (layer.coords.y - frame.sourceY) * frame.scaleY;
+  let scaleX = frame.scaleX;
+  let scaleY = frame.scaleY;
+
+  const override = index.byLayerId.get(layer.id);
+  const isPinned = !!override && index.pinned.has(layer.id);
+  if (override && isPinned) {
+    const individual = Number.isFinite(override.individualScale) && override.individualScale > 0 ? override.individualScale : 1;
+    scaleX = index.scaleFactor * individual;
+    scaleY = index.scaleFactor * individual;
+    if (Number.isFinite(override.xOffset)) x = index.originX + override.xOffset;
+    if (Number.isFinite(override.yOffset)) y = index.originY + override.yOffset;
+  }
+
+  // Overridden groups re-base their children on the group's new origin and scale
+  const childFrame: RemapFrame = isPinned
+    ? { sourceX: layer.coords.x, sourceY: layer.coords.y, originX: x, originY: y, scaleX, scaleY }
+    : frame;
+
+  const transformed: TransformedLayer = {
+    ...layer,
+    coords: {
+      x,
+      y,
+      w: layer.coords.w * scaleX,
+      h: layer.coords.h * scaleY
+    },
+    transform: {
+      scaleX,
+      scaleY,
+      offsetX: x - layer.coords.x,
+      offsetY: y - layer.coords.y
+    },
+    children: layer.children ? layer.children.map(child => transformLayer(child, childFrame, index)) : undefined
+  };
+
+  const metrics = index.optical?.[layer.id];
+  if (metrics) {
+    transformed.optical = {
+      bounds: { x: metrics.bounds.x * scaleX, y: metrics.bounds.y * scaleY, w: metrics.bounds.w * scaleX, h: metrics.bounds.h * scaleY },
+      visualCenter: { x: metrics.visualCenter.x * scaleX, y: metrics.visualCenter.y * scaleY },
+      pixelDensity: metrics.pixelDensity
+    };
+  }
+
+  if (override) {
+    if (typeof override.rotation === 'number' && Number.isFinite(override.rotation)) transformed.transform.rotation = override.rotation;
+    // Phase 4D: Hydrate semantic metadata for Reviewer visibility
+    if (override.layoutRole) transformed.layoutRole = override.layoutRole;
+    if (override.linkedAnchorId) transformed.linkedAnchorId = override.linkedAnchorId;
+    if (override.citedRule) transformed.citedRule = override.citedRule;
+  }
+
+  return transformed;
+};
+
+/**
+ * Remaps a resolved source container onto a target container definition.
+ * Pure function: takes the resolved MappingContext (global source coordinates) and
+ * produces a TransformedPayload whose layer coordinates are global to the target canvas.
+ *
+ * With `config.optical`, the scale maths run on the optical content box (see measureContentBox),
+ * centered placement aligns the content's visual center (see measureVisualCenter) and every
+ * layer carries its OpticalMetrics.
+ *
+ * When the context carries an AI strategy (DesignAnalyst `source-out-*` handles), its
+ * `suggestedScale` overrides the strategy scale and its `anchor` positions the content
+ * block; otherwise the block is centered inside the target bounds.
+ * A distribution `layoutMode` re-flows the 'flow' layers into rows, columns or a grid, and
+ * the semantic physics pass resolves 'background', 'static' and 'overlay' roles.
+ * Pinning overrides (committed reviewer feedback, untagged AI overrides) are applied last,
+ * then `physicsRules` are enforced on the 'flow' layers and summarized in `safetyReport`.
+ *
+ * @param context The resolved source container (layers + bounds).
+ * @param target The target container definition (from the target template).
+ * @param config The Remapper configuration (strategy selection, optical alignment).
+ * @param options Pipeline identifiers, reviewer feedback and optical metrics.
+ * @returns A TransformedPayload ready for registration in the payloadRegistry.
+ */
+export const remapContainer = (
+  context: MappingContext,
+  target: ContainerDefinition,
+  config: RemapperConfig | null | undefined,
+  options: RemapOptions
+): TransformedPayload => {
+  const strategy = config?.strategy || DEFAULT_REMAP_STRATEGY;
+  const source = context.container.bounds;
+  const targetBounds = target.bounds;
+
+  const aiStrategy = context.aiStrategy;
+  const sourceLayers = context.layers as SerializableLayer[];
+
+  // Optical mode measures the block by its visible pixels; geometric mode by the container bounds
+  const block = (config?.optical && measureContentBox(sourceLayers, options.opticalMetrics)) || source;
+
+  const { scaleX, scaleY } = resolveScale(strategy, aiStrategy, block, targetBounds);
+
+  // Anchor the scaled content block inside the target container (optical mode centers on the visual center)
+  const visualCenter = config?.optical ? measureVisualCenter(sourceLayers, options.opticalMetrics) : null;
+  const pivot = visualCenter ? { x: (visualCenter.x - block.x) * scaleX, y: (visualCenter.y - block.y) * scaleY } : undefined;
+  const origin = resolveBlockOrigin(aiStrategy?.anchor, { w: block.w * scaleX, h: block.h * scaleY }, targetBounds, pivot);
+
+  const frame: RemapFrame = {
+    sourceX: block.x,
+    sourceY: block.y,
+    originX: origin.x,
+    originY: origin.y,
+    scaleX,
+    scaleY
+  };
+
+  const scaleFactor = Math.min(scaleX, scaleY);
+
+  const overrideIndex: OverrideIndex = {
+    byLayerId: mergeLayerOverrides(aiStrategy?.overrides, options.feedback),
+    pinned: collectPinnedLayerIds(aiStrategy?.overrides, options.feedback),
+    frames: new Map(),
+    optical: config?.optical ? options.opticalMetrics : undefined,
+    originX: targetBounds.x,
+    originY: targetBounds.y,
+    scaleFactor
+  };
+
+  // Distributed and role-bound layers get their own frame; everything else rides the anchored block frame
+  const flowIds = new Set<string>();
+  if (aiStrategy?.layoutMode) {
+    computeDistributionFrames(sourceLayers, aiStrategy.layoutMode, targetBounds, overrideIndex.byLayerId, options.opticalMetrics)
+      .forEach((layerFrame, layerId) => {
+        overrideIndex.frames.set(layerId, layerFrame);
+        flowIds.add(layerId);
+      });
+  }
+  computeRoleFrames(sourceLayers, source, targetBounds, overrideIndex, options.opticalMetrics)
+    .forEach((layerFrame, layerId) => overrideIndex.frames.set(layerId, layerFrame));
+
+  let layers = sourceLayers.map(layer => transformLayer(layer, frame, overrideIndex));
+
+  // Overlays follow their anchor's final geometry, so they resolve after the anchors (one pass per chain depth)
+  const sourceIndex = flattenLayers(sourceLayers);
+  orderOverlays(sourceIndex, overrideIndex).forEach(level => {
+    const resultIndex = flattenLayers(layers);
+    level.forEach(layerId => {
+      const anchorId = overrideIndex.byLayerId.get(layerId)!.linkedAnchorId!;
+      const anchorResult = resultIndex.get(anchorId);
+      if (anchorResult) overrideIndex.frames.set(layerId, deriveAnchorFrame(sourceIndex.get(anchorId)!, anchorResult));
+    });
+    layers = sourceLayers.map(layer => transformLayer(layer, frame, overrideIndex));
+  });
+
+  // Constraint pass: flow layers are the bodies, pinned layers act as fixed obstacles
+  const physicsRules = aiStrategy?.physicsRules;
+  let safetyReport: TransformedPayload['safetyReport'];
+  if (physicsRules && (physicsRules.preventOverlap || physicsRules.preventClipping)) {
+    overrideIndex.byLayerId.forEach((override, layerId) => {
+      if (override.layoutRole === 'flow' && sourceIndex.has(layerId)) flowIds.add(layerId);
+    });
+    const result = enforcePhysicsRules(layers, targetBounds, physicsRules, Array.from(flowIds), overrideIndex.pinned, options.opticalMetrics);
+    layers = result.layers;
+    safetyReport = result.safetyReport;
+  }
+
+  const feedbackDirectives = options.feedback?.isCommitted !== false ? options.feedback?.directives : undefined;
+  const directives = (aiStrategy?.directives || feedbackDirectives)
+    ? Array.from(new Set([...(aiStrategy?.directives || []), ...(feedbackDirectives || [])]))
+    : undefined;
+
+  return {
+    status: 'success',
+    sourceNodeId: options.sourceNodeId,
+    sourceContainer: context.container.containerName,
+    targetContainer: target.name,
+    layers,
+    // Non-uniform strategies report the limiting axis as the representative scale
+    scaleFactor,
+    metrics: {
+      source: { w: source.w, h: source.h },
+      target: { w: targetBounds.w, h: targetBounds.h }
+    },
+    targetBounds: { ...targetBounds },
+    // Propagate AI audit metadata so Reviewer/Export can surface it
+    triangulation: aiStrategy?.triangulation,
+    directives,
+    replaceLayerId: aiStrategy?.replaceLayerId,
+    safetyReport
+  };
+};
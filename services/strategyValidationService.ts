@@ -0,0 +1,369 @@
+import { Type, Schema } from '@google/genai';
+import { LayoutStrategy, LayerOverride, ReviewerStrategy, SerializableLayer, TriangulationAudit } from '../types';
+
+// Model output is untrusted: every strategy is validated and repaired before it reaches node data or the registries.
+
+// Scales outside this range are treated as model errors and clamped
+export const MIN_STRATEGY_SCALE = 0.05;
+export const MAX_STRATEGY_SCALE = 8;
+
+const ANCHORS: LayoutStrategy['anchor'][] = ['TOP', 'CENTER', 'BOTTOM', 'STRETCH'];
+const METHODS: NonNullable<LayoutStrategy['method']>[] = ['GEOMETRIC', 'GENERATIVE', 'HYBRID'];
+const LAYOUT_MODES: NonNullable<LayoutStrategy['layoutMode']>[] = ['STANDARD', 'DISTRIBUTE_HORIZONTAL', 'DISTRIBUTE_VERTICAL', 'GRID'];
+const LAYOUT_ROLES: NonNullable<LayerOverride['layoutRole']>[] = ['flow', 'static', 'overlay', 'background'];
+const VERDICTS: TriangulationAudit['confidence_verdict'][] = ['HIGH', 'MEDIUM', 'LOW'];
+
+export interface ValidationResult<T> {
+  value: T;
+  // Human readable description of every repair, empty when the input was valid
+  repairs: string[];
+}
+
+export interface StrategyValidationContext {
+  // Layer IDs overrides may reference (resolved source layers / payload layers)
+  layerIds: Set<string>;
+  // Used when the model omits or corrupts suggestedScale
+  fallbackScale?: number;
+}
+
+/**
+ * Collects every layer ID of a tree (groups and leaves).
+ */
+export const collectLayerIds = (layers: SerializableLayer[]): Set<string> => {
+  const ids = new Set<string>();
+  const visit = (nodes: SerializableLayer[]) => nodes.forEach(layer => {
+    ids.add(layer.id);
+    if (layer.children) visit(layer.children);
+  });
+  visit(layers);
+  return ids;
+};
+
+/**
+ * Parses a model response body. Tolerates Markdown code fences around the JSON.
+ *
+ * @returns The parsed value, or null (with a repair note) when the body is not JSON.
+ */
+export const parseModelJson = (text: string | undefined): ValidationResult<unknown> => {
+  const body = (text || '').trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  if (!body) return { value: null, repairs: ['Empty response'] };
+  try {
+    return { value: JSON.parse(body), repairs: [] };
+  } catch {
+    return { value: null, repairs: ['Response was not valid JSON'] };
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Numeric strings ("0.5") are common in model output and accepted
+const toNumber = (value: unknown): number | null => {
+  if (isFiniteNumber(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  return null;
+};
+
+const pickEnum = <T extends string>(value: unknown, allowed: T[]): T | null => {
+  if (typeof value !== 'string') return null;
+  const upper = value.trim().toUpperCase();
+  return allowed.find(option => option.toUpperCase() === upper) ?? null;
+};
+
+const clampScale = (scale: number, label: string, repairs: string[]): number => {
+  const clamped = Math.min(MAX_STRATEGY_SCALE, Math.max(MIN_STRATEGY_SCALE, scale));
+  if (clamped !== scale) repairs.push(`${label} ${scale} clamped to ${clamped}`);
+  return clamped;
+};
+
+const readString = (value: unknown, fallback: string, label: string, repairs: string[]): string => {
+  if (typeof value === 'string') return value;
+  if (value !== undefined && value !== null) repairs.push(`${label} was not text, reset`);
+  return fallback;
+};
+
+/**
+ * Validates one layer override. Overrides without a known layer ID or a usable position are dropped (null).
+ */
+export const validateLayerOverride = (raw: unknown, context: StrategyValidationContext, repairs: string[]): LayerOverride | null => {
+  if (!isObject(raw)) {
+    repairs.push('Dropped a malformed override');
+    return null;
+  }
+
+  const layerId = typeof raw.layerId === 'string' ? raw.layerId : String(raw.layerId ?? '');
+  if (!context.layerIds.has(layerId)) {
+    repairs.push(`Dropped override for unknown layer '${layerId || '?'}'`);
+    return null;
+  }
+
+  const xOffset = toNumber(raw.xOffset);
+  const yOffset = toNumber(raw.yOffset);
+  if (xOffset === null || yOffset === null) {
+    repairs.push(`Dropped override for '${layerId}' without a numeric position`);
+    return null;
+  }
+
+  const label = `Override '${layerId}'`;
+  const override: LayerOverride = { layerId, xOffset, yOffset, individualScale: 1 };
+
+  const scale = toNumber(raw.individualScale);
+  if (scale === null) {
+    if (raw.individualScale !== undefined) repairs.push(`${label}: individualScale defaulted to 1`);
+  } else {
+    override.individualScale = clampScale(scale, `${label}: individualScale`, repairs);
+  }
+
+  const rotation = toNumber(raw.rotation);
+  if (rotation !== null) {
+    // Normalize to (-180, 180]
+    const normalized = ((((rotation + 180) % 360) + 360) % 360) - 180;
+    override.rotation = normalized === -180 ? 180 : normalized;
+  } else if (raw.rotation !== undefined && raw.rotation !== null) {
+    repairs.push(`${label}: invalid rotation removed`);
+  }
+
+  if (raw.layoutRole !== undefined && raw.layoutRole !== null) {
+    const value = String(raw.layoutRole).toLowerCase();
+    const role = LAYOUT_ROLES.find(r => r === value);
+    if (role) override.layoutRole = role;
+    else repairs.push(`${label}: unknown layoutRole removed`);
+  }
+
+  if (typeof raw.linkedAnchorId === 'string' && raw.linkedAnchorId) {
+    if (context.layerIds.has(raw.linkedAnchorId) && raw.linkedAnchorId !== layerId) override.linkedAnchorId = raw.linkedAnchorId;
+    else repairs.push(`${label}: link to unknown anchor '${raw.linkedAnchorId}' removed`);
+  }
+  if (override.layoutRole === 'overlay' && !override.linkedAnchorId) {
+    repairs.push(`${label}: overlay without anchor demoted to 'static'`);
+    override.layoutRole = 'static';
+  }
+
+  if (typeof raw.citedRule === 'string' && raw.citedRule) override.citedRule = raw.citedRule;
+  const anchorIndex = toNumber(raw.anchorIndex);
+  if (anchorIndex !== null) override.anchorIndex = Math.round(anchorIndex);
+
+  return override;
+};
+
+/**
+ * Validates a list of overrides; later duplicates of the same layer are dropped.
+ */
+export const validateOverrides = (raw: unknown, context: StrategyValidationContext, repairs: string[]): LayerOverride[] => {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) {
+    repairs.push('overrides was not a list, ignored');
+    return [];
+  }
+  const seen = new Set<string>();
+  return raw.flatMap(item => {
+    const override = validateLayerOverride(item, context, repairs);
+    if (!override) return [];
+    if (seen.has(override.layerId)) {
+      repairs.push(`Dropped duplicate override for '${override.layerId}'`);
+      return [];
+    }
+    seen.add(override.layerId);
+    return [override];
+  });
+};
+
+/**
+ * Validates a triangulation audit. The evidence count is clamped to 0-3 and a missing or
+ * invalid verdict is derived from it (3 = HIGH, 2 = MEDIUM, otherwise LOW).
+ */
+export const validateTriangulation = (raw: unknown, repairs: string[]): TriangulationAudit | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (!isObject(raw)) {
+    repairs.push('triangulation was malformed, removed');
+    return undefined;
+  }
+
+  const count = toNumber(raw.evidence_count);
+  const evidenceCount = count === null ? 0 : Math.min(3, Math.max(0, Math.round(count)));
+  if (count === null) repairs.push('triangulation.evidence_count defaulted to 0');
+  else if (evidenceCount !== count) repairs.push(`triangulation.evidence_count ${count} clamped to ${evidenceCount}`);
+
+  const derived: TriangulationAudit['confidence_verdict'] = evidenceCount >= 3 ? 'HIGH' : evidenceCount === 2 ? 'MEDIUM' : 'LOW';
+  let verdict = pickEnum(raw.confidence_verdict, VERDICTS);
+  if (!verdict) {
+    repairs.push(`triangulation.confidence_verdict derived from evidence (${derived})`);
+    verdict = derived;
+  }
+
+  return {
+    visual_identification: readString(raw.visual_identification, '', 'triangulation.visual_identification', repairs),
+    knowledge_correlation: readString(raw.knowledge_correlation, '', 'triangulation.knowledge_correlation', repairs),
+    metadata_validation: readString(raw.metadata_validation, '', 'triangulation.metadata_validation', repairs),
+    evidence_count: evidenceCount,
+    confidence_verdict: verdict
+  };
+};
+
+/**
+ * Validates and repairs an Analyst LayoutStrategy: clamps scales, fills required defaults,
+ * drops overrides that reference unknown layers and removes invalid optional fields.
+ */
+export const validateLayoutStrategy = (raw: unknown, context: StrategyValidationContext): ValidationResult<LayoutStrategy> => {
+  const repairs: string[] = [];
+  const input = isObject(raw) ? raw : {};
+  if (!isObject(raw)) repairs.push('Strategy was not an object, defaults used');
+
+  const fallbackScale = context.fallbackScale ?? 1;
+  const rawScale = toNumber(input.suggestedScale);
+  let suggestedScale: number;
+  if (rawScale === null || rawScale <= 0) {
+    suggestedScale = clampScale(fallbackScale, 'suggestedScale', []);
+    repairs.push(`suggestedScale defaulted to ${Number(suggestedScale.toFixed(4))}`);
+  } else {
+    suggestedScale = clampScale(rawScale, 'suggestedScale', repairs);
+  }
+
+  let anchor = pickEnum(input.anchor, ANCHORS);
+  if (!anchor) {
+    repairs.push("anchor defaulted to 'CENTER'");
+    anchor = 'CENTER';
+  }
+
+  const strategy: LayoutStrategy = {
+    suggestedScale,
+    anchor,
+    generativePrompt: readString(input.generativePrompt, '', 'generativePrompt', repairs),
+    reasoning: readString(input.reasoning, '', 'reasoning', repairs),
+    overrides: validateOverrides(input.overrides, context, repairs)
+  };
+
+  if (input.method !== undefined) {
+    const method = pickEnum(input.method, METHODS);
+    if (!method) repairs.push("unknown method replaced with 'GEOMETRIC'");
+    strategy.method = method || 'GEOMETRIC';
+  }
+
+  if (input.layoutMode !== undefined && input.layoutMode !== null) {
+    const layoutMode = pickEnum(input.layoutMode, LAYOUT_MODES);
+    if (layoutMode) strategy.layoutMode = layoutMode;
+    else repairs.push('unknown layoutMode removed (STANDARD used)');
+  }
+
+  if (isObject(input.physicsRules)) {
+    strategy.physicsRules = {
+      preventOverlap: input.physicsRules.preventOverlap === true,
+      preventClipping: input.physicsRules.preventClipping === true
+    };
+  } else if (input.physicsRules !== undefined && input.physicsRules !== null) {
+    repairs.push('physicsRules was malformed, removed');
+  }
+
+  if (Array.isArray(input.directives)) {
+    const directives = input.directives.filter((d): d is string => typeof d === 'string' && d.trim() !== '');
+    if (directives.length !== input.directives.length) repairs.push('Dropped non-text directives');
+    strategy.directives = directives;
+  } else if (input.directives !== undefined && input.directives !== null) {
+    repairs.push('directives was not a list, removed');
+  }
+
+  if (typeof input.replaceLayerId === 'string' && input.replaceLayerId) {
+    if (context.layerIds.has(input.replaceLayerId)) strategy.replaceLayerId = input.replaceLayerId;
+    else repairs.push(`replaceLayerId '${input.replaceLayerId}' is not a known layer, removed`);
+  }
+
+  const triangulation = validateTriangulation(input.triangulation, repairs);
+  if (triangulation) strategy.triangulation = triangulation;
+
+  if (isObject(input.safetyReport)) {
+    const violationCount = toNumber(input.safetyReport.violationCount);
+    strategy.safetyReport = { allowedBleed: input.safetyReport.allowedBleed === true, violationCount: Math.max(0, Math.round(violationCount ?? 0)) };
+  }
+
+  (['isExplicitIntent', 'clearance', 'generationAllowed'] as const).forEach(flag => {
+    if (typeof input[flag] === 'boolean') strategy[flag] = input[flag] as boolean;
+  });
+
+  return { value: strategy, repairs };
+};
+
+/**
+ * Validates and repairs a Reviewer strategy (overrides against the reviewed payload's layers).
+ */
+export const validateReviewerStrategy = (raw: unknown, context: StrategyValidationContext, defaultAudit: string): ValidationResult<ReviewerStrategy> => {
+  const repairs: string[] = [];
+  const input = isObject(raw) ? raw : {};
+  if (!isObject(raw)) repairs.push('Strategy was not an object, defaults used');
+
+  return {
+    value: {
+      CARO_Audit: typeof input.CARO_Audit === 'string' && input.CARO_Audit ? input.CARO_Audit : defaultAudit,
+      overrides: validateOverrides(input.overrides, context, repairs)
+    },
+    repairs
+  };
+};
+
+/**
+ * Chat log line summarizing the repairs applied to a model response (null when nothing was repaired).
+ */
+export const describeRepairs = (repairs: string[]): string | null =>
+  repairs.length === 0 ? null : `Response repaired (${repairs.length}): ${repairs.join('; ')}.`;
+
+// --- Response Schemas (constrain generation on the model side) ---
+
+const OVERRIDE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    layerId: { type: Type.STRING },
+    xOffset: { type: Type.NUMBER },
+    yOffset: { type: Type.NUMBER },
+    individualScale: { type: Type.NUMBER },
+    rotation: { type: Type.NUMBER },
+    layoutRole: { type: Type.STRING, enum: LAYOUT_ROLES },
+    linkedAnchorId: { type: Type.STRING },
+    citedRule: { type: Type.STRING }
+  },
+  required: ['layerId', 'xOffset', 'yOffset', 'individualScale']
+};
+
+const TRIANGULATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    visual_identification: { type: Type.STRING },
+    knowledge_correlation: { type: Type.STRING },
+    metadata_validation: { type: Type.STRING },
+    evidence_count: { type: Type.INTEGER },
+    confidence_verdict: { type: Type.STRING, enum: VERDICTS }
+  },
+  required: ['visual_identification', 'knowledge_correlation', 'metadata_validation', 'evidence_count', 'confidence_verdict']
+};
+
+export const LAYOUT_STRATEGY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    method: { type: Type.STRING, enum: METHODS },
+    suggestedScale: { type: Type.NUMBER },
+    anchor: { type: Type.STRING, enum: ANCHORS },
+    generativePrompt: { type: Type.STRING },
+    reasoning: { type: Type.STRING },
+    layoutMode: { type: Type.STRING, enum: LAYOUT_MODES },
+    physicsRules: {
+      type: Type.OBJECT,
+      properties: {
+        preventOverlap: { type: Type.BOOLEAN },
+        preventClipping: { type: Type.BOOLEAN }
+      }
+    },
+    overrides: { type: Type.ARRAY, items: OVERRIDE_SCHEMA },
+    directives: { type: Type.ARRAY, items: { type: Type.STRING } },
+    triangulation: TRIANGULATION_SCHEMA
+  },
+  required: ['method', 'suggestedScale', 'anchor', 'generativePrompt', 'reasoning', 'overrides', 'triangulation']
+};
+
+export const REVIEWER_STRATEGY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    reasoning: { type: Type.STRING },
+    overrides: { type: Type.ARRAY, items: OVERRIDE_SCHEMA }
+  },
+  required: ['overrides']
+};
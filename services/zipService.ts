@@ -0,0 +1,119 @@
+// Minimal ZIP writer (store method, no compression): artifacts are already compressed (PNG/JPEG/WebP, RLE PSD).
+
+export interface ZipEntry {
+  path: string; // Forward-slash separated path inside the archive
+  data: Uint8Array;
+  modified?: Date;
+}
+
+// ZIP (without Zip64) caps sizes and offsets at 32 bits and entry counts at 16 bits
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+// UTF-8 file names (general purpose bit 11)
+const FLAG_UTF8 = 0x0800;
+const VERSION = 20;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Standard CRC-32 (IEEE 802.3) checksum, as required by every ZIP entry.
+ */
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date/time fields (local time, 2 second resolution, years from 1980)
+const toDosDateTime = (date: Date): { time: number, date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+/**
+ * Builds a ZIP archive from in-memory entries (stored, uncompressed).
+ *
+ * @param entries Files to pack, in archive order.
+ * @returns The archive as an application/zip Blob.
+ * @throws When the archive would exceed the classic (non-Zip64) ZIP limits.
+ */
+export const createZipArchive = (entries: ZipEntry[]): Blob => {
+  if (entries.length > MAX_ZIP_ENTRIES) throw new Error(`ZIP archives are limited to ${MAX_ZIP_ENTRIES} files.`);
+
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.path);
+    const checksum = crc32(entry.data);
+    const stamp = toDosDateTime(entry.modified || new Date());
+    const size = entry.data.length;
+
+    // Local file header
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, VERSION, true);
+    local.setUint16(6, FLAG_UTF8, true);
+    local.setUint16(8, 0, true); // Method: store
+    local.setUint16(10, stamp.time, true);
+    local.setUint16(12, stamp.date, true);
+    local.setUint32(14, checksum, true);
+    local.setUint32(18, size, true); // Compressed size
+    local.setUint32(22, size, true); // Uncompressed size
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true); // Extra field length
+    parts.push(new Uint8Array(local.buffer), name, entry.data);
+
+    // Central directory record
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, VERSION, true); // Version made by
+    central.setUint16(6, VERSION, true); // Version needed
+    central.setUint16(8, FLAG_UTF8, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, stamp.time, true);
+    central.setUint16(14, stamp.date, true);
+    central.setUint32(16, checksum, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint16(30, 0, true); // Extra field length
+    central.setUint16(32, 0, true); // Comment length
+    central.setUint16(34, 0, true); // Disk number
+    central.setUint16(36, 0, true); // Internal attributes
+    central.setUint32(38, 0, true); // External attributes
+    central.setUint32(42, offset, true);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + size;
+    if (offset > MAX_ZIP_SIZE) throw new Error('ZIP archive exceeds 4 GB.');
+  });
+
+  const centralSize = centralDirectory.reduce((sum, part) => sum + part.length, 0);
+
+  // End of central directory record
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(4, 0, true);
+  end.setUint16(6, 0, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+  end.setUint16(20, 0, true);
+
+  return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)] as BlobPart[], { type: 'application/zip' });
+};
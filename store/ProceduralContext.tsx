@@ -1,7 +1,9 @@
 
 import React, { createContext, useContext, useState, useCallback, useMemo } from 'react';
 import { Psd } from 'ag-psd';
-import { TemplateMetadata, MappingContext, TransformedPayload, LayoutStrategy, KnowledgeContext, KnowledgeRegistry, FeedbackStrategy, FeedbackRegistry } from '../types';
+import { TemplateMetadata, MappingContext, TransformedPayload, LayoutStrategy, KnowledgeContext, KnowledgeRegistry, FeedbackStrategy, FeedbackRegistry, ProjectSettings } from '../types';
+import { createLlmProvider, DEFAULT_LLM_SETTINGS, LlmProvider } from '../services/llmProviderService';
+import { withResponseCache } from '../services/llmCacheService';
 
 interface ProceduralState {
   // Maps NodeID -> Raw PSD Object (Binary/Structure)
@@ -33,6 +35,12 @@ interface ProceduralState {
 
   // Global counter to force re-evaluation of downstream nodes upon binary re-hydration
   globalVersion: number;
+
+  // Saved with the project (ProjectControls)
+  projectSettings: ProjectSettings;
+
+  // Model backend selected in projectSettings.llm; nodes never instantiate SDK clients themselves
+  llmProvider: LlmProvider;
 }
 
 interface ProceduralContextType extends ProceduralState {
@@ -51,12 +59,18 @@ interface ProceduralContextType extends ProceduralState {
   unregisterNode: (nodeId: string) => void;
   flushPipelineInstance: (nodeId: string, handleId: string) => void;
   triggerGlobalRefresh: () => void;
+  setProjectSettings: (settings: ProjectSettings) => void;
   
   // Instance Lifecycle Actions
   addInstance: (nodeId: string) => void;
   removeInstance: (nodeId: string, instanceId: string) => void;
 }
 
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = { llm: DEFAULT_LLM_SETTINGS };
+
+// Identity of the open project (new session or loaded file without one), see ProjectSettings.projectId
+export const createProjectId = () => `proj_${Date.now()}_${Math.random().toString(36).substr(2, 5)}`;
+
 const ProceduralContext = createContext<ProceduralContextType | null>(null);
 
 // --- HELPER: Reconcile Terminal State ---
@@ -172,6 +186,12 @@ export const ProceduralStoreProvider: React.FC<{ children: React.ReactNode }> =
   const [feedbackRegistry, setFeedbackRegistry] = useState<FeedbackRegistry>({});
   const [knowledgeRegistry, setKnowledgeRegistry] = useState<KnowledgeRegistry>({});
   const [globalVersion, setGlobalVersion] = useState<number>(0);
+  const [projectSettings, setProjectSettings] = useState<ProjectSettings>(() => ({ ...DEFAULT_PROJECT_SETTINGS, projectId: createProjectId() }));
+
+  const llmProvider = useMemo(
+    () => withResponseCache(createLlmProvider(projectSettings.llm, process.env.API_KEY), projectSettings.llm.cacheMode, projectSettings.projectId),
+    [projectSettings.llm, projectSettings.projectId]
+  );
 
   // Reference to React Flow node setter
   const { setNodes } = (window as any).reactFlowInstance || { setNodes: () => {} };
@@ -282,17 +302,24 @@ export const ProceduralStoreProvider: React.FC<{ children: React.ReactNode }> =
   }, []);
 
   const unregisterNode = useCallback((nodeId: string) => {
-    setPsdRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
-    templateRegistry[nodeId] && setTemplateRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
-    resolvedRegistry[nodeId] && setResolvedRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
-    payloadRegistry[nodeId] && setPayloadRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
-    reviewerRegistry[nodeId] && setReviewerRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
-    analysisRegistry[nodeId] && setAnalysisRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
-    feedbackRegistry[nodeId] && setFeedbackRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
-    knowledgeRegistry[nodeId] && setKnowledgeRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
-    previewRegistry[nodeId] && setPreviewRegistry(prev => { const { [nodeId]: _, ...rest } = prev; return rest; });
+    // Functional updates only: this callback must stay referentially stable, because nodes
+    // call it from effect cleanups and a changing identity would purge live registrations.
+    const dropNode = <T,>(prev: Record<string, T>): Record<string, T> => {
+      if (!(nodeId in prev)) return prev;
+      const { [nodeId]: _, ...rest } = prev;
+      return rest;
+    };
+    setPsdRegistry(dropNode);
+    setTemplateRegistry(dropNode);
+    setResolvedRegistry(dropNode);
+    setPayloadRegistry(dropNode);
+    setReviewerRegistry(dropNode);
+    setAnalysisRegistry(dropNode);
+    setFeedbackRegistry(dropNode);
+    setKnowledgeRegistry(dropNode);
+    setPreviewRegistry(dropNode);
     setGlobalVersion(v => v + 1);
-  }, [templateRegistry, resolvedRegistry, payloadRegistry, reviewerRegistry, analysisRegistry, feedbackRegistry, knowledgeRegistry, previewRegistry]);
+  }, []);
 
   const flushPipelineInstance = useCallback((nodeId: string, handleId: string) => {
       const clearEntry = (setRegistry: React.Dispatch<React.SetStateAction<any>>) => {
@@ -365,6 +392,8 @@ export const ProceduralStoreProvider: React.FC<{ children: React.ReactNode }> =
     feedbackRegistry,
     knowledgeRegistry,
     globalVersion,
+    projectSettings,
+    llmProvider,
     registerPsd,
     registerTemplate,
     registerResolved,
@@ -380,12 +409,13 @@ export const ProceduralStoreProvider: React.FC<{ children: React.ReactNode }> =
     unregisterNode,
     flushPipelineInstance,
     triggerGlobalRefresh,
+    setProjectSettings,
     addInstance,
     removeInstance
   }), [
-    psdRegistry, templateRegistry, resolvedRegistry, payloadRegistry, reviewerRegistry, previewRegistry, analysisRegistry, feedbackRegistry, knowledgeRegistry, globalVersion,
+    psdRegistry, templateRegistry, resolvedRegistry, payloadRegistry, reviewerRegistry, previewRegistry, analysisRegistry, feedbackRegistry, knowledgeRegistry, globalVersion, projectSettings, llmProvider,
     registerPsd, registerTemplate, registerResolved, registerPayload, registerReviewerPayload, registerPreviewPayload, updatePayload, registerAnalysis, registerFeedback, clearFeedback, registerKnowledge, updatePreview,
-    unregisterNode, flushPipelineInstance, triggerGlobalRefresh, addInstance, removeInstance
+    unregisterNode, flushPipelineInstance, triggerGlobalRefresh, setProjectSettings, addInstance, removeInstance
   ]);
 
   return (
@@ -74,19 +74,55 @@ export interface ContainerContext {
   };
 }
 
+// Preview approximation of the common layer effects (source pixel units, first enabled instance)
+export interface LayerEffectsPreview {
+  dropShadow?: {
+    color: { r: number; g: number; b: number };
+    opacity: number; // 0-1
+    angle: number; // Light angle in degrees (shadow falls opposite)
+    distance: number;
+    size: number;
+  };
+  stroke?: {
+    color: { r: number; g: number; b: number };
+    opacity: number; // 0-1
+    size: number;
+    position: 'inside' | 'center' | 'outside';
+  };
+}
+
+// Raw opacity the parser could not use verbatim (see normalizeLayerOpacity)
+export interface OpacityCoercion {
+  raw: number;
+  reason: 'BYTE_RANGE' | 'OUT_OF_RANGE' | 'INVALID';
+}
+
 export interface SerializableLayer {
   id: string;
   name: string;
   type: 'layer' | 'group' | 'generative';
   children?: SerializableLayer[];
   isVisible: boolean;
-  opacity: number;
+  opacity: number; // 0-1 (0 = invisible)
+  opacityCoercion?: OpacityCoercion;
   coords: {
     x: number;
     y: number;
     w: number;
     h: number;
   };
+
+  // Compositing metadata (ag-psd): Photoshop blend mode key, clipping to the layer below, raster layer mask
+  blendMode?: string;
+  clipping?: boolean;
+  mask?: {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+    defaultColor: number; // 0 hides, 255 reveals pixels outside the mask bounds
+  };
+  effects?: LayerEffectsPreview;
 }
 
 export type RemapStrategy = 'STRETCH' | 'UNIFORM_FIT' | 'UNIFORM_FILL' | 'NONE';
@@ -179,6 +215,9 @@ export interface TransformedLayer extends SerializableLayer {
   layoutRole?: 'flow' | 'static' | 'overlay' | 'background';
   linkedAnchorId?: string;
   citedRule?: string;
+
+  // Optical (visible pixel) metrics in the layer's transformed local space
+  optical?: OpticalMetrics;
 }
 
 export interface MappingContext {
@@ -248,12 +287,19 @@ export interface TransformedPayload {
   
   replaceLayerId?: string | null; 
   triangulation?: TriangulationAudit; 
+
+  // Phase 4D: Residual physics violations after constraint resolution
+  safetyReport?: LayoutStrategy['safetyReport'];
 }
 
 export interface RemapperConfig {
   targetContainerName: string | null;
   strategy?: RemapStrategy;
   generationAllowed?: boolean; 
+  // Fit / fill / anchor maths use the layers' optical boxes instead of padded layer bounds
+  optical?: boolean;
+  // Batch mode: one source container remapped onto every container of the connected templates
+  batchMode?: boolean;
 }
 
 export interface InstanceSettings {
@@ -266,6 +312,7 @@ export interface ChatMessage {
   role: 'user' | 'model';
   parts: { text: string }[];
   strategySnapshot?: LayoutStrategy;
+  model?: string; // Analyst model tier (MODELS key) the request was sent to / the answer came from
   timestamp: number;
 }
 
@@ -323,12 +370,37 @@ export interface TargetTemplateData {
   error?: string | null;
 }
 
+// --- AI PROVIDER SETTINGS ---
+
+// Canned responses keyed by request hash (see requestKey in llmProviderService)
+export interface LlmFixtures {
+  text: Record<string, string>;
+  images: Record<string, string>; // Base64 PNG
+}
+
+export interface LlmSettings {
+  provider: 'gemini' | 'openai-compatible' | 'fixture';
+  endpoint?: string; // openai-compatible: base URL, e.g. http://localhost:11434/v1
+  textModel?: string; // openai-compatible: replaces the node's requested text model
+  imageModel?: string; // openai-compatible: replaces the node's requested image model
+  fixtures?: LlmFixtures; // fixture: responses to replay
+  cacheMode?: 'off' | 'record' | 'replay'; // Response cache (llmCacheService), off when absent
+  embedCache?: boolean; // Save the response cache inside the project JSON
+}
+
+export interface ProjectSettings {
+  llm: LlmSettings;
+  projectId?: string; // Tags recorded AI responses, so a save embeds only this project's (absent before response caching)
+}
+
 export interface ProjectExport {
   version: string;
   timestamp: number;
   nodes: Node<PSDNodeData>[];
   edges: Edge[];
   viewport: { x: number, y: number, zoom: number };
+  settings?: ProjectSettings; // Absent in projects saved before provider settings existed
+  aiCache?: LlmFixtures; // Recorded model responses, when settings.llm.embedCache is set
 }
 
 export type { Psd };